@@ -0,0 +1,71 @@
+export type AuthOptions = {
+    getToken: () => string | Promise<string>;
+    refreshToken: () => string | Promise<string>;
+    /**
+     * Scheme of the Authorization header. Default is Bearer.
+     */
+    scheme?: string;
+};
+
+type AuthState = {
+    refresh: Promise<string> | null;
+    refreshedToken: string | null;
+};
+
+const authStates = new WeakMap<AuthOptions, AuthState>();
+
+/**
+ * @returns {Promise<string>} the token to authorize a request, waiting for the refresh in progress if any
+ */
+export async function getAuthToken(auth: AuthOptions): Promise<string> {
+    const { refresh } = getAuthState(auth);
+    return refresh ?? auth.getToken();
+}
+
+/**
+ * Refreshes the token once for all the concurrent requests sharing the same auth options.
+ * @param auth auth options
+ * @param rejectedToken token rejected by the server
+ * @returns {Promise<string>} the refreshed token
+ */
+export function refreshAuthToken(
+    auth: AuthOptions,
+    rejectedToken: string
+): Promise<string> {
+    const state = getAuthState(auth);
+    if (state.refresh) {
+        return state.refresh;
+    }
+    if (
+        state.refreshedToken !== null &&
+        state.refreshedToken !== rejectedToken
+    ) {
+        return Promise.resolve(state.refreshedToken);
+    }
+    state.refresh = Promise.resolve()
+        .then(() => auth.refreshToken())
+        .then(token => {
+            state.refreshedToken = token;
+            return token;
+        })
+        .finally(() => {
+            state.refresh = null;
+        });
+    return state.refresh;
+}
+
+export function getAuthorizationHeaderValue(
+    auth: AuthOptions,
+    token: string
+): string {
+    return `${auth.scheme ?? 'Bearer'} ${token}`;
+}
+
+function getAuthState(auth: AuthOptions): AuthState {
+    let state = authStates.get(auth);
+    if (!state) {
+        state = { refresh: null, refreshedToken: null };
+        authStates.set(auth, state);
+    }
+    return state;
+}
@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import { Clock, systemClock } from './clock';
+import { CircuitOpenError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Outcome of a request allowed by the circuit breaker:
+ * - success: the upstream answered
+ * - failure: the request failed with a response or an error matched by the built-in retry conditions
+ * - ignored: the request has been aborted or failed for a reason not related to the upstream
+ */
+export type CircuitOutcome = 'success' | 'failure' | 'ignored';
+
+export type CircuitBreakerOptions = {
+    /**
+     * Number of consecutive failures opening the circuit. Default is 5.
+     */
+    consecutiveFailures: number;
+    /**
+     * Failure rate, between 0 and 1, of the last windowSize requests opening the circuit. Default is 0.5.
+     */
+    failureRateThreshold: number;
+    /**
+     * Number of the last requests used to compute the failure rate. Default is 20.
+     */
+    windowSize: number;
+    /**
+     * Minimum number of requests in the window to evaluate the failure rate. Default is 10.
+     */
+    minimumRequests: number;
+    /**
+     * Time in milliseconds the circuit stays open before allowing trial requests. Default is 30 seconds.
+     */
+    cooldown: number;
+    /**
+     * Number of trial requests allowed while the circuit is half-open. Default is 1.
+     */
+    halfOpenMaxRequests: number;
+    /**
+     * Clock measuring the cooldown. Default is the system clock.
+     */
+    clock: Clock;
+};
+
+export type CircuitStateChange = {
+    origin: string;
+    from: CircuitState;
+    to: CircuitState;
+};
+
+export type CircuitBreaker = {
+    getState(origin: string): CircuitState;
+    /**
+     * Reserves a request to the origin.
+     * @returns {CircuitRelease} function recording the outcome of the request, ignored if the circuit changed state meanwhile
+     * @throws {CircuitOpenError} if the circuit of the origin is open
+     */
+    acquire(origin: string): CircuitRelease;
+    on(
+        event: 'stateChange',
+        listener: (change: CircuitStateChange) => void
+    ): CircuitBreaker;
+    off(
+        event: 'stateChange',
+        listener: (change: CircuitStateChange) => void
+    ): CircuitBreaker;
+};
+
+export type CircuitRelease = (outcome: CircuitOutcome) => void;
+
+type Circuit = {
+    state: CircuitState;
+    /**
+     * Incremented on each state change, so that the outcome of a request acquired in a previous state is not recorded
+     */
+    generation: number;
+    consecutiveFailures: number;
+    outcomes: boolean[];
+    openedAt: number;
+    halfOpenRequests: number;
+};
+
+/**
+ * Creates a circuit breaker keyed by origin, to be shared by the requests through the circuitBreaker option.
+ * @param {Partial<CircuitBreakerOptions>} options circuit breaker options, a default value is applied to each field if not provided.
+ * @returns {CircuitBreaker} circuit breaker
+ */
+export function createCircuitBreaker(
+    options: Partial<CircuitBreakerOptions> = {}
+): CircuitBreaker {
+    const {
+        consecutiveFailures,
+        failureRateThreshold,
+        windowSize,
+        minimumRequests,
+        cooldown,
+        halfOpenMaxRequests,
+        clock
+    }: CircuitBreakerOptions = {
+        consecutiveFailures: 5,
+        failureRateThreshold: 0.5,
+        windowSize: 20,
+        minimumRequests: 10,
+        cooldown: 30_000,
+        halfOpenMaxRequests: 1,
+        clock: systemClock,
+        ...options
+    };
+    const events = new EventEmitter();
+    const circuits = new Map<string, Circuit>();
+
+    const circuitBreaker: CircuitBreaker = {
+        getState(origin) {
+            return getCircuit(origin).state;
+        },
+        acquire(origin) {
+            const circuit = getCircuit(origin);
+            if (
+                circuit.state === 'open' &&
+                clock.now() - circuit.openedAt >= cooldown
+            ) {
+                transition(origin, circuit, 'half-open');
+            }
+            if (
+                circuit.state === 'open' ||
+                (circuit.state === 'half-open' &&
+                    circuit.halfOpenRequests >= halfOpenMaxRequests)
+            ) {
+                throw new CircuitOpenError(
+                    origin,
+                    Math.max(circuit.openedAt + cooldown - clock.now(), 0)
+                );
+            }
+            const trial = circuit.state === 'half-open';
+            const generation = circuit.generation;
+            let released = false;
+            if (trial) {
+                circuit.halfOpenRequests++;
+            }
+            return outcome => {
+                if (released || circuit.generation !== generation) {
+                    return;
+                }
+                released = true;
+                if (trial) {
+                    circuit.halfOpenRequests--;
+                    if (outcome !== 'ignored') {
+                        transition(
+                            origin,
+                            circuit,
+                            outcome === 'success' ? 'closed' : 'open'
+                        );
+                    }
+                    return;
+                }
+                if (outcome !== 'ignored') {
+                    recordOutcome(origin, circuit, outcome === 'success');
+                }
+            };
+        },
+        on(event, listener) {
+            events.on(event, listener);
+            return circuitBreaker;
+        },
+        off(event, listener) {
+            events.off(event, listener);
+            return circuitBreaker;
+        }
+    };
+
+    return circuitBreaker;
+
+    function getCircuit(origin: string): Circuit {
+        let circuit = circuits.get(origin);
+        if (!circuit) {
+            circuit = {
+                state: 'closed',
+                generation: 0,
+                consecutiveFailures: 0,
+                outcomes: [],
+                openedAt: 0,
+                halfOpenRequests: 0
+            };
+            circuits.set(origin, circuit);
+        }
+        return circuit;
+    }
+
+    function recordOutcome(
+        origin: string,
+        circuit: Circuit,
+        success: boolean
+    ): void {
+        circuit.consecutiveFailures = success
+            ? 0
+            : circuit.consecutiveFailures + 1;
+        circuit.outcomes.push(success);
+        if (circuit.outcomes.length > windowSize) {
+            circuit.outcomes.shift();
+        }
+        const failures = circuit.outcomes.filter(o => !o).length;
+        if (
+            circuit.consecutiveFailures >= consecutiveFailures ||
+            (circuit.outcomes.length >= minimumRequests &&
+                failures / circuit.outcomes.length >= failureRateThreshold)
+        ) {
+            transition(origin, circuit, 'open');
+        }
+    }
+
+    function transition(
+        origin: string,
+        circuit: Circuit,
+        state: CircuitState
+    ): void {
+        const from = circuit.state;
+        circuit.state = state;
+        circuit.generation++;
+        circuit.consecutiveFailures = 0;
+        circuit.outcomes = [];
+        circuit.halfOpenRequests = 0;
+        if (state === 'open') {
+            circuit.openedAt = clock.now();
+        }
+        events.emit('stateChange', { origin, from, to: state });
+    }
+}
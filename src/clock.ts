@@ -0,0 +1,124 @@
+/**
+ * Source of time and timers, replaceable to test retry schedules without waiting for real time.
+ */
+export type Clock = {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(timer: unknown): void;
+};
+
+export type VirtualClock = Clock & {
+    /**
+     * Advances the time by the given milliseconds running, in order, the timers due.
+     * The pending promise callbacks are run after each timer, so the retry sequence can schedule its next timer.
+     * @returns {Promise<void>} promise resolved when the time has been advanced
+     */
+    advance(ms: number): Promise<void>;
+    getPendingTimers(): number;
+};
+
+type VirtualTimer = {
+    id: number;
+    at: number;
+    callback: () => void;
+};
+
+/**
+ * Clock using the real time and the global timers.
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: timer => clearTimeout(timer as ReturnType<typeof setTimeout>)
+};
+
+/**
+ * Creates a clock whose time only moves when advanced, to be passed through the clock option.
+ * @param startTime initial time in milliseconds since epoch, default is 0
+ * @returns {VirtualClock} virtual clock
+ */
+export function createVirtualClock(startTime: number = 0): VirtualClock {
+    const timers = new Map<number, VirtualTimer>();
+    let now = startTime;
+    let lastTimerId = 0;
+
+    return {
+        now: () => now,
+        setTimeout(callback, ms) {
+            const id = ++lastTimerId;
+            timers.set(id, { id, at: now + Math.max(ms, 0), callback });
+            return id;
+        },
+        clearTimeout(timer) {
+            timers.delete(timer as number);
+        },
+        advance,
+        getPendingTimers: () => timers.size
+    };
+
+    async function advance(ms: number): Promise<void> {
+        const target = now + ms;
+        await flushPromises();
+        for (
+            let timer = getNextTimer(target);
+            timer;
+            timer = getNextTimer(target)
+        ) {
+            timers.delete(timer.id);
+            now = timer.at;
+            timer.callback();
+            await flushPromises();
+        }
+        now = target;
+    }
+
+    function getNextTimer(target: number): VirtualTimer | undefined {
+        let next: VirtualTimer | undefined;
+        for (const timer of timers.values()) {
+            if (timer.at <= target && (!next || timer.at < next.at)) {
+                next = timer;
+            }
+        }
+        return next;
+    }
+}
+
+export type TimeoutSignal = {
+    signal: AbortSignal;
+    /**
+     * Clears the timer of the timeout, so that it does not abort the signal anymore.
+     */
+    clear(): void;
+};
+
+/**
+ * Same as AbortSignal.timeout, but the timeout is measured by the given clock.
+ * @param ms timeout in milliseconds
+ * @param {Clock} clock clock measuring the timeout
+ * @returns {TimeoutSignal} signal aborted with a TimeoutError when the timeout expires, and the function clearing its timer
+ */
+export function timeoutSignal(ms: number, clock: Clock): TimeoutSignal {
+    if (clock === systemClock) {
+        // the timer of AbortSignal.timeout does not keep the process alive
+        return { signal: AbortSignal.timeout(ms), clear: () => undefined };
+    }
+    const controller = new AbortController();
+    const timer = clock.setTimeout(
+        () =>
+            controller.abort(
+                new DOMException(
+                    'The operation was aborted due to timeout',
+                    'TimeoutError'
+                )
+            ),
+        ms
+    );
+    return {
+        signal: controller.signal,
+        clear: () => clock.clearTimeout(timer)
+    };
+}
+
+function flushPromises(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,93 @@
+import {
+    fetchWithRetries,
+    FetchWithRetriesResult,
+    Options
+} from './fetch-with-retries';
+import {
+    FetchInput,
+    getInputOptions,
+    getInputUrl,
+    mergeHeaders
+} from './fetch-input';
+import { mergeHooks } from './hooks';
+
+export type ClientOptions = Options & {
+    /**
+     * Base URL used to resolve the url of each request, see https://developer.mozilla.org/en-US/docs/Web/API/URL/URL
+     */
+    baseURL?: string | URL;
+};
+
+export type FetchWithRetriesClient = {
+    (input: FetchInput, options?: Options): Promise<Response>;
+    withMeta(
+        input: FetchInput,
+        options?: Options
+    ): Promise<FetchWithRetriesResult>;
+    readonly defaults: ClientOptions;
+};
+
+/**
+ * Creates a fetchWithRetries function configured with default options shared by all its requests.
+ * @param {ClientOptions} defaults default fetch options extended with a baseURL field. The options of each request are deep merged over them.
+ * @returns {FetchWithRetriesClient} configured fetchWithRetries function
+ */
+export function createFetchWithRetries(
+    defaults: ClientOptions = {}
+): FetchWithRetriesClient {
+    const { baseURL, ...defaultOptions } = defaults;
+
+    const client = async (input: FetchInput, options: Options = {}) =>
+        fetchWithRetries(resolveUrl(input), await mergeOptions(input, options));
+    client.withMeta = async (input: FetchInput, options: Options = {}) =>
+        fetchWithRetries.withMeta(
+            resolveUrl(input),
+            await mergeOptions(input, options)
+        );
+    client.defaults = defaults;
+
+    return client;
+
+    function resolveUrl(input: FetchInput): string {
+        const url = getInputUrl(input);
+        return baseURL ? new URL(url, baseURL).toString() : url;
+    }
+
+    async function mergeOptions(
+        input: FetchInput,
+        inputOptions: Options
+    ): Promise<Options> {
+        const options = await getInputOptions(input, {
+            maxBodyBufferSize: defaultOptions.maxBodyBufferSize,
+            ...inputOptions
+        });
+        return {
+            ...defaultOptions,
+            ...options,
+            headers: mergeHeaders(defaultOptions.headers, options.headers),
+            hooks: mergeHooks(defaultOptions.hooks, options.hooks),
+            retryOptions: mergeRetryOptions(
+                defaultOptions.retryOptions,
+                options.retryOptions
+            )
+        };
+    }
+}
+
+function mergeRetryOptions(
+    defaultRetryOptions: Options['retryOptions'] = {},
+    retryOptions: Options['retryOptions'] = {}
+): Options['retryOptions'] {
+    return {
+        ...defaultRetryOptions,
+        ...retryOptions,
+        policies: {
+            ...defaultRetryOptions.policies,
+            ...retryOptions.policies
+        },
+        rateLimit: {
+            ...defaultRetryOptions.rateLimit,
+            ...retryOptions.rateLimit
+        }
+    };
+}
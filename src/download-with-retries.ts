@@ -0,0 +1,180 @@
+import { FetchInput } from './fetch-input';
+import {
+    fetchWithRetries,
+    isErrorThatHaveToBeRetried,
+    Options
+} from './fetch-with-retries';
+import { DownloadResumeError } from './errors';
+
+export type DownloadProgress = {
+    /**
+     * Number of bytes of the body received by the caller
+     */
+    loaded: number;
+    /**
+     * Size in bytes of the body from the Content-Length header, null if not known
+     */
+    total: number | null;
+    /**
+     * Number of times the download has been resumed
+     */
+    resumes: number;
+};
+
+export type DownloadOptions = Omit<Options, 'consumeBody'> & {
+    /**
+     * Max number of times the download is resumed when reading the body fails with a retryable error. Default is 3.
+     */
+    maxResumes?: number;
+    onProgress?: (progress: DownloadProgress) => void;
+};
+
+/**
+ * Same as fetchWithRetries, but when reading the body fails with a retryable error (i.e.: the connection drops)
+ * the download is resumed from the bytes already received, sending a Range request with an If-Range header
+ * (ETag or Last-Modified). The body of the response resolved is one continuous stream.
+ * When the server ignores the Range request the download restarts, skipping the bytes already received.
+ * The body is requested with Accept-Encoding: identity, a response with a Content-Encoding anyway is not resumed.
+ * @param {FetchInput} input fetch url or Request
+ * @param {DownloadOptions} options fetchWithRetries options extended with maxResumes and onProgress
+ * @returns {Promise<Response>} promise of the response, whose body fails with a DownloadResumeError if the resource changes
+ * or has no validator to check it did not
+ */
+export async function downloadWithRetries(
+    input: FetchInput,
+    options: DownloadOptions = {}
+): Promise<Response> {
+    const { maxResumes = 3, onProgress, ...downloadOptions } = options;
+    const fetchOptions = {
+        ...downloadOptions,
+        headers: getDownloadHeaders(downloadOptions.headers)
+    };
+    const response = await fetchWithRetries(input, fetchOptions);
+    if (!response.ok || !response.body) {
+        return response;
+    }
+    // the bytes received are counted decoded, while a Range applies to the encoded body
+    const resumable = !response.headers.has('Content-Encoding');
+    const validator = getValidator(response.headers);
+    const contentLength = response.headers.get('Content-Length');
+    const total = contentLength === null ? null : Number(contentLength);
+    let reader = response.body.getReader();
+    let loaded = 0;
+    let resumes = 0;
+    let bytesToSkip = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            for (;;) {
+                let chunk: Awaited<ReturnType<typeof reader.read>>;
+                try {
+                    chunk = await reader.read();
+                } catch (error) {
+                    if (
+                        !resumable ||
+                        resumes >= maxResumes ||
+                        !isErrorThatHaveToBeRetried(error)
+                    ) {
+                        throw error;
+                    }
+                    if (!validator) {
+                        throw new DownloadResumeError(
+                            'Download cannot be resumed because the response has no strong ETag nor Last-Modified header',
+                            response
+                        );
+                    }
+                    resumes++;
+                    reader = await resume();
+                    continue;
+                }
+                if (chunk.done) {
+                    controller.close();
+                    return;
+                }
+                const value = skipBytes(chunk.value);
+                if (value.length > 0) {
+                    loaded += value.length;
+                    controller.enqueue(value);
+                    onProgress?.({ loaded, total, resumes });
+                    return;
+                }
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        }
+    });
+
+    return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    });
+
+    async function resume(): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+        const headers = new Headers(fetchOptions.headers);
+        headers.set('Range', `bytes=${loaded}-`);
+        if (validator) {
+            headers.set('If-Range', validator);
+        }
+        const resumeResponse = await fetchWithRetries(input, {
+            ...fetchOptions,
+            headers
+        });
+        if (
+            resumeResponse.status === 206 &&
+            getContentRangeStart(resumeResponse.headers) === loaded
+        ) {
+            bytesToSkip = 0;
+        } else if (
+            resumeResponse.status === 200 &&
+            getValidator(resumeResponse.headers) === validator
+        ) {
+            bytesToSkip = loaded;
+        } else {
+            await resumeResponse.body?.cancel();
+            throw new DownloadResumeError(
+                resumeResponse.ok
+                    ? 'Download cannot be resumed because the resource changed'
+                    : `Download cannot be resumed, request failed with status code ${resumeResponse.status}`,
+                resumeResponse
+            );
+        }
+        return resumeResponse.body!.getReader();
+    }
+
+    function skipBytes(value: Uint8Array): Uint8Array {
+        const skipped = Math.min(bytesToSkip, value.length);
+        bytesToSkip -= skipped;
+        return value.subarray(skipped);
+    }
+}
+
+/**
+ * Gets the headers of the download requests, asking for the body without content encoding
+ * so that the bytes received match the byte ranges of the resource.
+ */
+function getDownloadHeaders(headers: RequestInit['headers']): Headers {
+    const downloadHeaders = new Headers(headers);
+    downloadHeaders.set('Accept-Encoding', 'identity');
+    return downloadHeaders;
+}
+
+/**
+ * Gets the validator of the If-Range header, a strong ETag or the Last-Modified date,
+ * see https://www.rfc-editor.org/rfc/rfc9110#field.if-range
+ */
+function getValidator(headers: Headers): string | null {
+    const etag = headers.get('ETag');
+    if (etag && !etag.startsWith('W/')) {
+        return etag;
+    }
+    return headers.get('Last-Modified');
+}
+
+function getContentRangeStart(headers: Headers): number | null {
+    const contentRange = /^bytes (\d+)-/.exec(
+        headers.get('Content-Range') ?? ''
+    );
+    return contentRange ? Number(contentRange[1]) : null;
+}
@@ -0,0 +1,175 @@
+import type { CircuitOutcome } from './circuit-breaker';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Strategy used to select the endpoint of each attempt:
+ * - round-robin: the endpoints are used in turn
+ * - priority: the first endpoint of the list is used, the next ones only while the previous ones are failing
+ * - health-weighted: a random endpoint, with a probability proportional to its recent success rate
+ */
+export type EndpointStrategy = 'round-robin' | 'priority' | 'health-weighted';
+
+export type EndpointPoolOptions = {
+    /**
+     * Origins of the endpoints (i.e.: https://eu.api.com), in priority order.
+     */
+    endpoints: string[];
+    /**
+     * Default is round-robin.
+     */
+    strategy: EndpointStrategy;
+    /**
+     * Time in milliseconds an endpoint is skipped after a failure. Default is 30 seconds.
+     */
+    cooldown: number;
+    random: () => number;
+    /**
+     * Clock measuring the cooldown. Default is the system clock.
+     */
+    clock: Clock;
+};
+
+export type EndpointPool = {
+    /**
+     * Selects the endpoint of an attempt, skipping the endpoints cooling down and the excluded ones.
+     * When all of them are skipped, the one recovering first is selected.
+     */
+    select(excluded?: ReadonlySet<string>): string;
+    /**
+     * Records the outcome of an attempt to the endpoint.
+     */
+    report(endpoint: string, outcome: CircuitOutcome): void;
+    /**
+     * Gets the recent success rate, between 0 and 1, of the endpoint.
+     */
+    getHealth(endpoint: string): number;
+};
+
+type Endpoint = {
+    origin: string;
+    health: number;
+    failedUntil: number;
+};
+
+const HEALTH_SMOOTHING = 0.2;
+const MIN_HEALTH_WEIGHT = 0.05;
+
+/**
+ * Creates a pool of endpoints, to be shared by the requests through the failover option,
+ * that moves the attempts following a retryable failure to another endpoint.
+ * @param options endpoint pool options, a default value is applied to each field but endpoints if not provided.
+ * @returns {EndpointPool} endpoint pool
+ */
+export function createEndpointPool(
+    options: Partial<EndpointPoolOptions> &
+        Pick<EndpointPoolOptions, 'endpoints'>
+): EndpointPool {
+    const {
+        endpoints,
+        strategy,
+        cooldown,
+        random,
+        clock
+    }: EndpointPoolOptions = {
+        strategy: 'round-robin',
+        cooldown: 30_000,
+        random: Math.random,
+        clock: systemClock,
+        ...options
+    };
+    if (endpoints.length === 0) {
+        throw new TypeError('Endpoint pool requires at least one endpoint');
+    }
+    const pool: Endpoint[] = endpoints.map(endpoint => ({
+        origin: new URL(endpoint).origin,
+        health: 1,
+        failedUntil: 0
+    }));
+    let nextIndex = 0;
+
+    return {
+        select(excluded = new Set()) {
+            const now = clock.now();
+            const available = pool.filter(
+                endpoint =>
+                    endpoint.failedUntil <= now &&
+                    !excluded.has(endpoint.origin)
+            );
+            if (available.length === 0) {
+                return getRecoveringFirst(excluded).origin;
+            }
+            switch (strategy) {
+                case 'priority':
+                    return available[0].origin;
+                case 'round-robin':
+                    return selectRoundRobin(available).origin;
+                case 'health-weighted':
+                    return selectHealthWeighted(available).origin;
+            }
+        },
+        report(origin, outcome) {
+            const endpoint = pool.find(endpoint => endpoint.origin === origin);
+            if (!endpoint || outcome === 'ignored') {
+                return;
+            }
+            const success = outcome === 'success' ? 1 : 0;
+            endpoint.health += (success - endpoint.health) * HEALTH_SMOOTHING;
+            endpoint.failedUntil = success ? 0 : clock.now() + cooldown;
+        },
+        getHealth(origin) {
+            return (
+                pool.find(endpoint => endpoint.origin === origin)?.health ?? 0
+            );
+        }
+    };
+
+    function selectRoundRobin(available: Endpoint[]): Endpoint {
+        for (let i = 0; i < pool.length; i++) {
+            const index = (nextIndex + i) % pool.length;
+            if (available.includes(pool[index])) {
+                nextIndex = (index + 1) % pool.length;
+                return pool[index];
+            }
+        }
+        return available[0];
+    }
+
+    function selectHealthWeighted(available: Endpoint[]): Endpoint {
+        const weights = available.map(endpoint =>
+            Math.max(endpoint.health, MIN_HEALTH_WEIGHT)
+        );
+        let value = random() * weights.reduce((sum, weight) => sum + weight);
+        for (let i = 0; i < available.length; i++) {
+            value -= weights[i];
+            if (value < 0) {
+                return available[i];
+            }
+        }
+        return available[available.length - 1];
+    }
+
+    function getRecoveringFirst(excluded: ReadonlySet<string>): Endpoint {
+        const notExcluded = pool.filter(
+            endpoint => !excluded.has(endpoint.origin)
+        );
+        return (notExcluded.length > 0 ? notExcluded : pool).reduce(
+            (first, endpoint) =>
+                endpoint.failedUntil < first.failedUntil ? endpoint : first
+        );
+    }
+}
+
+/**
+ * Gets the url of a request sent to the endpoint: the origin of an absolute url is replaced by the endpoint,
+ * a relative url is resolved against the endpoint.
+ */
+export function getEndpointUrl(url: string, endpoint: string): string {
+    if (!URL.canParse(url)) {
+        return new URL(url, endpoint).toString();
+    }
+    const endpointUrl = new URL(endpoint);
+    const endpointRequestUrl = new URL(url);
+    endpointRequestUrl.protocol = endpointUrl.protocol;
+    endpointRequestUrl.host = endpointUrl.host;
+    return endpointRequestUrl.toString();
+}
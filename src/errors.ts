@@ -0,0 +1,98 @@
+import type { AttemptRecord } from './fetch-with-retries';
+
+/**
+ * Error thrown when the request body can be read only once and cannot be replayed on retries.
+ */
+export class NonReplayableBodyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NonReplayableBodyError';
+    }
+}
+
+/**
+ * Error thrown, when the throwOnExhausted option is enabled, if the request is still failing after all the retries.
+ * The response is the last one received, null if the last attempt failed with an error available as cause.
+ */
+export class RetryExhaustedError extends Error {
+    public readonly cause?: unknown;
+
+    constructor(
+        public readonly attempts: AttemptRecord[],
+        public readonly response: Response | null,
+        cause?: unknown
+    ) {
+        super(`Retries exhausted after ${attempts.length} attempts`);
+        this.name = 'RetryExhaustedError';
+        this.cause = cause;
+    }
+}
+
+/**
+ * Error thrown, when the throwOnExhausted option is enabled, if the signal aborts the request while retrying.
+ * The abort reason is available as cause.
+ */
+export class AbortedDuringRetryError extends Error {
+    public readonly cause?: unknown;
+
+    constructor(
+        public readonly attempts: AttemptRecord[],
+        cause?: unknown
+    ) {
+        super(`Aborted while retrying after ${attempts.length} attempts`);
+        this.name = 'AbortedDuringRetryError';
+        this.cause = cause;
+    }
+}
+
+/**
+ * Error thrown without sending the request when the circuit breaker of the request origin is open.
+ * The retryAfter field is the time in milliseconds before the circuit allows trial requests.
+ */
+export class CircuitOpenError extends Error {
+    constructor(
+        public readonly origin: string,
+        public readonly retryAfter: number
+    ) {
+        super(`Circuit breaker is open for ${origin}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Error failing an attempt when the response body does not pass the validate function, retried as a retryable error.
+ */
+export class ResponseValidationError extends Error {
+    constructor(
+        public readonly response: Response,
+        public readonly body: unknown
+    ) {
+        super(`Response body of ${response.url} is not valid`);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/**
+ * Error thrown by fetchJsonWithRetries and fetchTextWithRetries when the last response received has not an ok status.
+ * The response body has not been read.
+ */
+export class ResponseStatusError extends Error {
+    constructor(public readonly response: Response) {
+        super(`Request failed with status code ${response.status}`);
+        this.name = 'ResponseStatusError';
+    }
+}
+
+/**
+ * Error failing the body of a download that cannot be resumed, because the resource changed
+ * or the server answered the resume request with an unexpected status.
+ */
+export class DownloadResumeError extends Error {
+    constructor(
+        message: string,
+        public readonly response: Response
+    ) {
+        super(message);
+        this.name = 'DownloadResumeError';
+    }
+}
@@ -0,0 +1,63 @@
+import { FetchInput } from './fetch-input';
+import { fetchWithRetries, Options } from './fetch-with-retries';
+import { ResponseStatusError, ResponseValidationError } from './errors';
+
+export type BodyOptions<T> = Omit<Options, 'consumeBody'> & {
+    /**
+     * Checks the body of a response with an ok status (i.e.: a JSON schema or a GraphQL errors field).
+     * When it returns false the attempt fails with a ResponseValidationError and it is retried.
+     */
+    validate?: (body: T, response: Response) => boolean | Promise<boolean>;
+};
+
+/**
+ * Same as fetchWithRetries, but reading the JSON body is part of each attempt, so a connection reset while reading it is retried.
+ * @param {FetchInput} input fetch url or Request
+ * @param {BodyOptions} options fetchWithRetries options extended with an optional validate function
+ * @returns {Promise<T>} promise of the parsed body, rejected with a ResponseStatusError if the last response has not an ok status
+ */
+export function fetchJsonWithRetries<T = unknown>(
+    input: FetchInput,
+    options: BodyOptions<T> = {}
+): Promise<T> {
+    return fetchBodyWithRetries(
+        input,
+        options,
+        response => response.json() as Promise<T>
+    );
+}
+
+/**
+ * Same as fetchWithRetries, but reading the text body is part of each attempt, so a connection reset while reading it is retried.
+ * @param {FetchInput} input fetch url or Request
+ * @param {BodyOptions} options fetchWithRetries options extended with an optional validate function
+ * @returns {Promise<string>} promise of the body, rejected with a ResponseStatusError if the last response has not an ok status
+ */
+export function fetchTextWithRetries(
+    input: FetchInput,
+    options: BodyOptions<string> = {}
+): Promise<string> {
+    return fetchBodyWithRetries(input, options, response => response.text());
+}
+
+async function fetchBodyWithRetries<T>(
+    input: FetchInput,
+    { validate, ...options }: BodyOptions<T>,
+    readBody: (response: Response) => Promise<T>
+): Promise<T> {
+    let body: T;
+    const response = await fetchWithRetries(input, {
+        ...options,
+        consumeBody: async response => {
+            const responseBody = await readBody(response);
+            if (validate && !(await validate(responseBody, response))) {
+                throw new ResponseValidationError(response, responseBody);
+            }
+            body = responseBody;
+        }
+    });
+    if (!response.ok) {
+        throw new ResponseStatusError(response);
+    }
+    return body!;
+}
@@ -0,0 +1,68 @@
+import { NonReplayableBodyError } from './errors';
+import type { Options } from './fetch-with-retries';
+
+export const DEFAULT_MAX_BODY_BUFFER_SIZE = 1024 * 1024;
+
+/**
+ * Input accepted by fetch, see https://developer.mozilla.org/en-US/docs/Web/API/Window/fetch#resource
+ */
+export type FetchInput = string | URL | Request;
+
+export function getInputUrl(input: FetchInput): string {
+    return input instanceof Request ? input.url : input.toString();
+}
+
+/**
+ * Gets the options of a fetch input. The fields of a Request are used as defaults of the given options,
+ * and its body is buffered once, up to maxBodyBufferSize, so it is replayed with its length on each attempt.
+ * @param {FetchInput} input fetch input
+ * @param {Options} options fetch options
+ * @returns {Promise<Options>} promise of the merged options
+ */
+export async function getInputOptions(
+    input: FetchInput,
+    options: Options
+): Promise<Options> {
+    if (!(input instanceof Request)) {
+        return options;
+    }
+    return {
+        method: input.method,
+        redirect: input.redirect,
+        integrity: input.integrity,
+        keepalive: input.keepalive,
+        referrerPolicy: input.referrerPolicy,
+        signal: input.signal,
+        ...options,
+        headers: mergeHeaders(input.headers, options.headers),
+        body:
+            options.body === undefined && input.body !== null
+                ? await bufferInputBody(
+                      input,
+                      options.maxBodyBufferSize ?? DEFAULT_MAX_BODY_BUFFER_SIZE
+                  )
+                : options.body
+    };
+}
+
+async function bufferInputBody(
+    input: Request,
+    maxBodyBufferSize: number
+): Promise<Buffer> {
+    const buffer = Buffer.from(await input.clone().arrayBuffer());
+    if (buffer.length > maxBodyBufferSize) {
+        throw new NonReplayableBodyError(
+            `Request body exceeds maxBodyBufferSize of ${maxBodyBufferSize} bytes, provide the body as a function returning it instead`
+        );
+    }
+    return buffer;
+}
+
+export function mergeHeaders(
+    defaultHeaders: RequestInit['headers'],
+    headers: RequestInit['headers']
+): Headers {
+    const mergedHeaders = new Headers(defaultHeaders);
+    new Headers(headers).forEach((value, key) => mergedHeaders.set(key, value));
+    return mergedHeaders;
+}
@@ -3,10 +3,154 @@
  * It also provides an abort system to allow graceful shutdown when waiting for long retries.
  */
 
-import { RETRY_ERROR_CODES, RETRY_STATUS_CODES } from './retry-codes';
+import { randomUUID } from 'crypto';
+import {
+    AuthOptions,
+    getAuthorizationHeaderValue,
+    getAuthToken,
+    refreshAuthToken
+} from './auth';
+import {
+    CircuitBreaker,
+    CircuitOutcome,
+    CircuitRelease
+} from './circuit-breaker';
+import { RateLimiter } from './rate-limiter';
+import { RequestQueue } from './request-queue';
+import { RetryBudget } from './retry-budget';
+import {
+    AbortedDuringRetryError,
+    NonReplayableBodyError,
+    ResponseValidationError,
+    RetryExhaustedError
+} from './errors';
+import { Clock, systemClock, timeoutSignal, TimeoutSignal } from './clock';
+import { EndpointPool, getEndpointUrl } from './endpoint-pool';
+import {
+    DEFAULT_MAX_BODY_BUFFER_SIZE,
+    FetchInput,
+    getInputOptions,
+    getInputUrl
+} from './fetch-input';
+import {
+    createDispatcherSwitch,
+    DispatcherSwitch,
+    FreshConnectionOptions
+} from './fresh-connection';
+import { fetchHedged, HedgingOptions } from './hedging';
+import {
+    getRateLimitHeaderDelay,
+    RateLimitValueType
+} from './rate-limit-headers';
+import {
+    AttemptRequest,
+    Hooks,
+    runAfterResponseHooks,
+    runBeforeRequestHooks,
+    runBeforeRetryHooks,
+    runOnErrorHooks
+} from './hooks';
+import {
+    IDEMPOTENT_METHODS,
+    NOT_SENT_ERROR_CODES,
+    RETRY_ERROR_CODES,
+    RETRY_STATUS_CODES
+} from './retry-codes';
+import { wait } from './wait';
 
-export type Options = RequestInit & {
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+type Body = RequestInit['body'];
+
+export type Options = Omit<RequestInit, 'body'> & {
+    /**
+     * Request body or a function returning the request body, called on each attempt.
+     * Bodies that can be read only once (i.e.: streams) are buffered to be replayed on retries.
+     */
+    body?: Body | (() => Body);
+    /**
+     * Max size in bytes of a body that can be read only once to be buffered. Default is 1 MiB.
+     * A NonReplayableBodyError is thrown when the body exceeds it.
+     */
+    maxBodyBufferSize?: number;
+    /**
+     * fetch implementation used to make each attempt, default is the global fetch
+     */
+    fetch?: typeof fetch;
+    /**
+     * Switches to a new dispatcher after a connection error (i.e.: ECONNRESET), so the next attempts do not reuse a poisoned keep-alive socket.
+     */
+    freshConnection?: FreshConnectionOptions;
+    /**
+     * Clock measuring delays, timeouts and elapsed times. Default is the system clock, see createVirtualClock for tests.
+     * The timeout timers set on another clock are cleared once the retry sequence settles.
+     */
+    clock?: Clock;
+    /**
+     * Function reading the body of each response with an ok status as part of the attempt.
+     * When it throws the attempt fails with the error, retried if retryable (i.e.: a connection reset while reading the body).
+     */
+    consumeBody?: (response: Response) => Promise<void>;
+    /**
+     * @deprecated use attemptTimeout instead
+     */
     timeout?: number;
+    /**
+     * Timeout in milliseconds applied to each attempt, starting once the rate limiter and the request queue let it go. An attempt that times out is retried.
+     */
+    attemptTimeout?: number;
+    /**
+     * Timeout in milliseconds applied to the whole retry sequence. When it expires no further attempt is made.
+     */
+    totalTimeout?: number;
+    /**
+     * Sends an Idempotency-Key header with the same value on every attempt. When true a random UUID is generated.
+     * A request with an Idempotency-Key header is retried on ambiguous failures even if its method is not idempotent.
+     */
+    idempotencyKey?: boolean | string | (() => string);
+    /**
+     * When true a RetryExhaustedError is thrown instead of returning the last response or throwing the last error
+     * when retries are exhausted, and an AbortedDuringRetryError is thrown when the signal aborts the retries.
+     */
+    throwOnExhausted?: boolean;
+    hooks?: Hooks;
+    /**
+     * Injects the token in the Authorization header of each attempt. A 401 response triggers a token refresh,
+     * shared by the concurrent requests using the same auth options, and a replay not counted as a retry.
+     */
+    auth?: AuthOptions;
+    /**
+     * Circuit breaker, created with createCircuitBreaker, failing fast with a CircuitOpenError while the circuit of the request origin is open.
+     */
+    circuitBreaker?: CircuitBreaker;
+    /**
+     * Retry budget, created with createRetryBudget, withdrawn by each retry and refilled by each successful attempt.
+     * When the budget is empty the request is not retried anymore.
+     */
+    retryBudget?: RetryBudget;
+    /**
+     * Rate limiter, created with createRateLimiter, queueing each attempt to stay under the quota of the request origin.
+     */
+    rateLimiter?: RateLimiter;
+    /**
+     * Request queue, created with createRequestQueue, limiting the attempts in flight.
+     * The slot of the request is released while it waits for a retry.
+     */
+    requestQueue?: RequestQueue;
+    /**
+     * Priority of the request in the requestQueue, higher first. Default is 0.
+     */
+    priority?: number;
+    /**
+     * Fires parallel requests when an attempt does not answer within hedgeDelay, the first successful response wins.
+     * It applies only to requests with an idempotent method, each parallel request waiting for the rate limiter and a slot of the request queue.
+     */
+    hedging?: HedgingOptions;
+    /**
+     * Pool of endpoints the request is sent to, the attempts following a retryable failure are moved to another endpoint.
+     * The origin of the url is replaced by the endpoint, a relative url is resolved against it.
+     */
+    failover?: EndpointPool;
     retryOptions?: RetryOptions;
 };
 
@@ -16,7 +160,11 @@ type RetryOptions = Partial<Omit<InternalRetryOptions, 'rateLimit'>> & {
 
 type CustomHeader = {
     header: string;
-    valueType: 'wait-seconds' | 'reset-utc-epoch-seconds' | 'wait-milliseconds';
+    valueType: RateLimitValueType;
+    /**
+     * Response status codes the header is read for, default [429]
+     */
+    statusCodes?: number[];
 };
 
 type RateLimitOptions = {
@@ -25,146 +173,724 @@ type RateLimitOptions = {
     customHeaders: CustomHeader[];
 };
 
-type InternalRetryOptions = {
-    onRetry?: (params: OnRetry) => void;
+/**
+ * Strategy used to randomize the exponential backoff delay, see
+ * https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ * - none: the exponential delay is used as it is
+ * - full: a random delay between 0 and the exponential delay
+ * - equal: half of the exponential delay plus a random delay between 0 and the other half
+ * - decorrelated: a random delay between the initial delay and 3 times the previous delay
+ * - a function that receives the exponential delay and returns the delay to apply
+ */
+export type Jitter =
+    | 'none'
+    | 'full'
+    | 'equal'
+    | 'decorrelated'
+    | ((params: JitterParams) => number);
+
+export type JitterParams = {
+    delay: number;
+    previousDelay: number;
+    initialDelay: number;
+    random: () => number;
+};
+
+/**
+ * Result of the shouldRetry option:
+ * - true: retry the request, even if it is not idempotent
+ * - false: do not retry the request
+ * - default (or undefined): apply the built-in retry conditions
+ * - { delay }: retry the request after the given delay in milliseconds, even if it is not idempotent
+ */
+export type ShouldRetryResult = boolean | 'default' | { delay: number } | void;
+
+export type ShouldRetryContext = {
+    attempt: number;
+    response: Response | null;
+    error?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    request: { url: string; init: RequestInit };
+    elapsed: number;
+    retryable: boolean;
+};
+
+export type RetryPolicy = {
     maxRetries: number;
     initialDelay: number;
     factor: number;
+    maxDelay: number;
+    jitter: Jitter;
+};
+
+type InternalRetryOptions = RetryPolicy & {
+    shouldRetry?: (
+        context: ShouldRetryContext
+    ) => ShouldRetryResult | Promise<ShouldRetryResult>;
+    onRetry?: (params: OnRetry) => void;
+    onRetrySkipped?: (params: OnRetrySkipped) => void;
+    onHedge?: (params: OnHedge) => void;
+    /**
+     * Retry policies keyed by status code (i.e.: 503), status class (i.e.: 5xx) or error code (i.e.: ECONNREFUSED).
+     * Each policy has its own retries counter and falls back to the top level options for the fields not provided.
+     * A response or error matching a policy is retried even if it is not matched by the built-in retry conditions.
+     */
+    policies: Record<string, Partial<RetryPolicy>>;
+    maxElapsedTime: number;
+    random: () => number;
+    retryNonIdempotent: boolean;
     rateLimit: RateLimitOptions;
 };
 
+/**
+ * Why a request has been considered safe to be retried:
+ * - idempotent-method: the request method is idempotent
+ * - idempotency-key: the request has an Idempotency-Key header
+ * - retry-non-idempotent: the retryNonIdempotent option is enabled
+ * - should-retry: the shouldRetry option explicitly asked to retry the request
+ * - not-sent: the request failed before reaching the server
+ * - rate-limited: the server rejected the request due to rate limits
+ */
+export type Idempotency =
+    | 'idempotent-method'
+    | 'idempotency-key'
+    | 'retry-non-idempotent'
+    | 'should-retry'
+    | 'not-sent'
+    | 'rate-limited';
+
 export type OnRetry = {
     response: Response | null;
     error?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
     attempt: number;
     delay: number;
     rateLimitRetry: boolean;
+    idempotency: Idempotency;
+    /**
+     * Name of the policy applied: the matching key of the policies option, default or rateLimit
+     */
+    policy: string;
+    /**
+     * Endpoint of the failover option that served the attempt
+     */
+    endpoint?: string;
+};
+
+export type AttemptRecord = {
+    attempt: number;
+    status?: number;
+    errorCode?: string;
+    startedAt: number;
+    endedAt: number;
+    /**
+     * Delay waited after the attempt before retrying, 0 if the attempt has not been retried
+     */
+    delay: number;
+    rateLimitRetry: boolean;
+    policy?: string;
+    /**
+     * Index of the hedged request that won the attempt, 0 being the first one
+     */
+    hedge?: number;
+    /**
+     * Endpoint of the failover option that served the attempt
+     */
+    endpoint?: string;
+};
+
+export type OnHedge = {
+    attempt: number;
+    /**
+     * Number of requests fired by the attempt, including the first one
+     */
+    hedges: number;
+    /**
+     * Index of the request that won, 0 being the first one, null if all the requests failed with an error
+     */
+    winner: number | null;
+};
+
+type Policy = {
+    name: string;
+    options: RetryPolicy;
+    state: { retries: number; previousDelay: number };
+};
+
+export type OnRetrySkipped = {
+    response: Response | null;
+    error?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    attempt: number;
+    /**
+     * - non-idempotent: the request is not safe to be retried
+     * - before-retry: a beforeRetry hook vetoed the retry
+     * - retry-budget: the retry budget is empty
+     */
+    reason: 'non-idempotent' | 'before-retry' | 'retry-budget';
+};
+
+export type FetchWithRetriesResult = {
+    response: Response;
+    attempts: number;
+    errorRetries: number;
+    rateLimitRetries: number;
+    /**
+     * Total time in milliseconds waited between retries
+     */
+    totalDelay: number;
+    /**
+     * Total time in milliseconds spent since the first attempt
+     */
+    elapsed: number;
+    history: AttemptRecord[];
 };
 
 /**
- * @param url fetch url
+ * @param {FetchInput} input fetch url or Request, the body of a Request is buffered to be replayed on each attempt
  * @param {Options} options fetch options extended with an additional retryOptions field. The retryOptions field is optional and a default value will be applied to each subfield if not provided.
  * @returns {Promise<Response>} promise of a response
  */
 export async function fetchWithRetries(
-    url: string,
-    options: Options
+    input: FetchInput,
+    options: Options = {}
 ): Promise<Response> {
-    const { retryOptions, timeout, ...requestInit } = options;
-    const { maxRetries, initialDelay, factor, rateLimit, onRetry } =
-        mergeWithDefaultOptions(retryOptions);
+    const { response } = await fetchWithRetriesAndMeta(input, options);
+    return response;
+}
+
+/**
+ * Same as fetchWithRetries, but the promise resolves with the response and the metadata of the attempts made.
+ * @param {FetchInput} input fetch url or Request
+ * @param {Options} options fetch options extended with an additional retryOptions field.
+ * @returns {Promise<FetchWithRetriesResult>} promise of the response with the attempts metadata
+ */
+fetchWithRetries.withMeta = fetchWithRetriesAndMeta;
+
+async function fetchWithRetriesAndMeta(
+    input: FetchInput,
+    options: Options = {}
+): Promise<FetchWithRetriesResult> {
+    const dispatcherSwitch = createDispatcherSwitch(
+        options.freshConnection,
+        options.dispatcher
+    );
+    const timeouts: TimeoutSignal[] = [];
+    try {
+        return await fetchAttempts(input, options, dispatcherSwitch, timeouts);
+    } finally {
+        dispatcherSwitch.close();
+        timeouts.forEach(timeout => timeout.clear());
+    }
+}
+
+async function fetchAttempts(
+    input: FetchInput,
+    options: Options,
+    dispatcherSwitch: DispatcherSwitch,
+    timeouts: TimeoutSignal[]
+): Promise<FetchWithRetriesResult> {
+    const url = getInputUrl(input);
+    const {
+        retryOptions,
+        timeout,
+        attemptTimeout = timeout,
+        totalTimeout,
+        idempotencyKey,
+        throwOnExhausted = false,
+        hooks = {},
+        auth,
+        circuitBreaker,
+        retryBudget,
+        rateLimiter,
+        requestQueue,
+        priority,
+        hedging,
+        failover,
+        body,
+        maxBodyBufferSize = DEFAULT_MAX_BODY_BUFFER_SIZE,
+        fetch: fetchImplementation = fetch,
+        clock = systemClock,
+        consumeBody,
+        freshConnection, // eslint-disable-line @typescript-eslint/no-unused-vars
+        ...requestInit
+    } = await getInputOptions(input, options);
+    const {
+        maxRetries,
+        initialDelay,
+        factor,
+        maxDelay,
+        maxElapsedTime,
+        jitter,
+        policies,
+        random,
+        retryNonIdempotent,
+        rateLimit,
+        shouldRetry,
+        onRetry,
+        onRetrySkipped,
+        onHedge
+    } = mergeWithDefaultOptions(retryOptions);
+    const startTime = clock.now();
     const rateLimitHeaders = getRateLimitHeaders(rateLimit);
-    const { signal } = requestInit;
-    const fetchSignal = composeSignal(signal, timeout);
-    const requestOptions: RequestInit = {
-        ...requestInit,
-        ...(fetchSignal && { signal: fetchSignal })
-    };
+    const signal = composeSignal(requestInit.signal, totalTimeout);
+    const headers = getHeaders(requestInit.headers, idempotencyKey);
+    const getBody = await getBodyFactory(body, maxBodyBufferSize);
+    const requestIdempotency = getRequestIdempotency(
+        requestInit.method,
+        headers
+    );
+    const hedged =
+        !!hedging &&
+        hedging.maxHedges > 0 &&
+        requestIdempotency === 'idempotent-method';
+    const failedEndpoints = new Set<string>();
+    const policyStates = new Map<string, Policy['state']>();
+    const history: AttemptRecord[] = [];
     let attempt = 0;
+    let exhausted = false;
     let errorRetries = 0;
     let rateLimitRetries = 0;
+    let totalDelay = 0;
+    let authToken: string | null = null;
+    let authRefreshed = false;
     let retry = false;
     let response: Response | null = null;
-    let errorToRetry: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+    let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
 
     do {
         response = null;
-        errorToRetry = null;
+        error = null;
         attempt++;
 
+        const attemptBody = getBody();
+        const attemptHeaders = new Headers(headers);
+        if (auth) {
+            authToken = authRefreshed ? authToken! : await getAuthToken(auth);
+            attemptHeaders.set(
+                'Authorization',
+                getAuthorizationHeaderValue(auth, authToken)
+            );
+        }
+        const dispatcher = dispatcherSwitch.getDispatcher();
+        const endpoint = failover?.select(failedEndpoints);
+        const request = await runBeforeRequestHooks(hooks, {
+            url: endpoint ? getEndpointUrl(url, endpoint) : url,
+            init: {
+                ...requestInit,
+                ...(dispatcher && { dispatcher }),
+                headers: attemptHeaders,
+                body: attemptBody,
+                ...(isOneShotBody(attemptBody) && { duplex: 'half' }),
+                ...(signal && { signal })
+            },
+            attempt
+        });
+        const origin =
+            circuitBreaker || rateLimiter || requestQueue
+                ? new URL(request.url).origin
+                : '';
+        let releaseSlot: (() => void) | undefined;
+        try {
+            await rateLimiter?.acquire(origin, signal);
+            releaseSlot = await requestQueue?.acquire(origin, {
+                priority,
+                signal
+            });
+        } catch (e) {
+            throw getAbortError(e);
+        }
+        let releaseCircuit: CircuitRelease | undefined;
         try {
-            response = await fetch(url, requestOptions);
+            releaseCircuit = circuitBreaker?.acquire(origin);
         } catch (e) {
-            if (
-                isErrorThatHaveToBeRetried(e) &&
-                !hasReachedMaxRetries(errorRetries)
-            ) {
-                errorToRetry = e;
+            releaseSlot?.();
+            throw e;
+        }
+        // the attempt timeout does not count the wait for the rate limiter and the queue
+        request.init.signal = composeSignal(
+            request.init.signal,
+            attemptTimeout
+        );
+        const startedAt = clock.now();
+        let hedge: number | undefined;
+        try {
+            if (hedged && isReplayableBody(request.init.body, attemptBody)) {
+                ({ response, hedge } = await fetchHedgedAttempt(
+                    request,
+                    origin
+                ));
             } else {
-                throw e;
+                response = await fetchImplementation(request.url, request.init);
+            }
+            response = await runAfterResponseHooks(hooks, response, request);
+            if (consumeBody && response.ok) {
+                await consumeBody(response);
+            }
+        } catch (e) {
+            if (signal?.aborted) {
+                releaseCircuit?.('ignored');
+                throw getAbortError(e);
             }
+            response = null;
+            error = e;
+            dispatcherSwitch.switchOnError(error);
+        } finally {
+            releaseSlot?.();
+        }
+        if (response) {
+            rateLimiter?.update(origin, response);
+        }
+        const outcome = getAttemptOutcome();
+        releaseCircuit?.(outcome);
+        if (endpoint) {
+            failover!.report(endpoint, outcome);
+            if (outcome === 'failure') {
+                failedEndpoints.add(endpoint);
+            }
+        }
+        if (outcome === 'success') {
+            retryBudget?.deposit();
+        }
+        if (error) {
+            await runOnErrorHooks(hooks, error, request);
+        }
+        const record: AttemptRecord = {
+            attempt,
+            status: response?.status,
+            errorCode: error?.cause?.code ?? error?.name,
+            startedAt,
+            endedAt: clock.now(),
+            delay: 0,
+            rateLimitRetry: false,
+            hedge,
+            endpoint
+        };
+        history.push(record);
+
+        if (auth && response?.status === 401 && !authRefreshed) {
+            authRefreshed = true;
+            authToken = await refreshAuthToken(auth, authToken!);
+            record.policy = 'auth';
+            retry = true;
+            continue;
         }
 
+        const policy = getPolicy();
         const rateLimitDelay = response ? getRateLimitDelay(response) : null;
+        const retryable = isAttemptThatHaveToBeRetried(policy);
+        const decision = await getShouldRetryDecision(
+            request,
+            retryable || rateLimitDelay !== null
+        );
+        const explicitDelay =
+            typeof decision === 'object' ? decision.delay : null;
         const rateLimitRetry =
+            (decision === 'default' || decision === true) &&
             rateLimitDelay !== null &&
             !hasReachedRateLimitMaxRetries(rateLimitRetries);
+        const backoffRetry =
+            decision === true ||
+            explicitDelay !== null ||
+            (decision === 'default' && retryable);
+        const idempotency = getIdempotency(
+            rateLimitRetry,
+            decision === true || explicitDelay !== null
+        );
         retry =
-            errorToRetry ||
-            (response !== null &&
-                isResponseThatHaveToBeRetried(response) &&
-                !hasReachedMaxRetries(errorRetries)) ||
-            rateLimitRetry;
-        if (retry && !signal?.aborted) {
+            rateLimitRetry || (backoffRetry && !hasReachedMaxRetries(policy));
+        exhausted = backoffRetry && !retry;
+        if (retry && idempotency === null) {
+            retry = false;
+            notifyRetrySkipped('non-idempotent');
+        }
+        if (retry && idempotency !== null && !signal?.aborted) {
+            const backoffDelay =
+                rateLimitRetry || explicitDelay !== null
+                    ? null
+                    : getDelay(policy);
             let delay: number;
             if (rateLimitRetry) {
-                rateLimitRetries++;
                 delay = rateLimitDelay;
             } else {
+                delay = explicitDelay ?? backoffDelay!;
+            }
+            const retryParams: OnRetry = {
+                error,
+                response,
+                attempt,
+                delay,
+                rateLimitRetry,
+                idempotency,
+                policy: rateLimitRetry ? 'rateLimit' : policy.name,
+                endpoint
+            };
+            if (!(await runBeforeRetryHooks(hooks, retryParams))) {
+                retry = false;
+                notifyRetrySkipped('before-retry');
+                break;
+            }
+            if (hasExceededMaxElapsedTime(retryParams.delay)) {
+                exhausted = true;
+                break;
+            }
+            if (retryBudget && !retryBudget.tryWithdraw()) {
+                exhausted = true;
+                notifyRetrySkipped('retry-budget');
+                break;
+            }
+            if (rateLimitRetry) {
+                rateLimitRetries++;
+            } else {
+                policy.state.retries++;
                 errorRetries++;
-                delay = getDelay(errorRetries);
+                if (backoffDelay !== null) {
+                    policy.state.previousDelay = backoffDelay;
+                }
             }
+            totalDelay += retryParams.delay;
+            record.delay = retryParams.delay;
+            record.rateLimitRetry = rateLimitRetry;
+            record.policy = retryParams.policy;
             if (typeof onRetry === 'function') {
-                onRetry({
-                    error: errorToRetry,
-                    response,
-                    attempt,
-                    delay,
-                    rateLimitRetry
-                });
+                onRetry(retryParams);
             }
-            await wait(delay, signal);
+            await wait(retryParams.delay, signal, clock);
         }
     } while (retry && !signal?.aborted);
 
-    signal?.throwIfAborted();
+    if (signal?.aborted) {
+        throw getAbortError(signal.reason);
+    }
+    if (exhausted && throwOnExhausted) {
+        throw new RetryExhaustedError(history, response, error);
+    }
+    if (error) {
+        throw error;
+    }
 
-    return response!;
+    return {
+        response: response!,
+        attempts: attempt,
+        errorRetries,
+        rateLimitRetries,
+        totalDelay,
+        elapsed: clock.now() - startTime,
+        history
+    };
 
-    function hasReachedMaxRetries(retries: number): boolean {
-        return retries >= maxRetries;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    function getAbortError(abortError: any): any {
+        if (!throwOnExhausted || history.length === 0) {
+            return abortError;
+        }
+        if (requestInit.signal?.aborted) {
+            return new AbortedDuringRetryError(history, abortError);
+        }
+        return new RetryExhaustedError(history, response, abortError);
+    }
+
+    function hasReachedMaxRetries({ options, state }: Policy): boolean {
+        return state.retries >= options.maxRetries;
     }
 
     function hasReachedRateLimitMaxRetries(retries: number): boolean {
         return retries >= rateLimit.maxRetries;
     }
 
-    function getRateLimitDelay(response: Response): number | null {
-        for (const rateLimitHeader of rateLimitHeaders) {
-            const { header, valueType, statusCodes } = rateLimitHeader;
-            const value = getRateLimitHeaderValue(header, response);
-            if (
-                Number.isInteger(value) &&
-                statusCodes.includes(response.status)
-            ) {
-                switch (valueType) {
-                    case 'wait-seconds':
-                        return getDelayFromSeconds(value);
-                    case 'reset-utc-epoch-seconds':
-                        return getDelayFromEpochSeconds(value);
-                    case 'wait-milliseconds':
-                        return getDelayFromMilliSeconds(value);
+    function isAttemptThatHaveToBeRetried(policy: Policy): boolean {
+        if (error) {
+            return (
+                policy.name !== 'default' || isErrorThatHaveToBeRetried(error)
+            );
+        }
+        return (
+            (policy.name !== 'default' && !response!.ok) ||
+            isResponseThatHaveToBeRetried(response!)
+        );
+    }
+
+    function getPolicy(): Policy {
+        const name = getPolicyName();
+        const options = {
+            maxRetries,
+            initialDelay,
+            factor,
+            maxDelay,
+            jitter,
+            ...policies[name]
+        };
+        let state = policyStates.get(name);
+        if (!state) {
+            state = { retries: 0, previousDelay: options.initialDelay };
+            policyStates.set(name, state);
+        }
+        return { name, options, state };
+    }
+
+    function getPolicyName(): string {
+        const keys = error
+            ? [error?.cause?.code, error?.name]
+            : [
+                  String(response!.status),
+                  `${Math.floor(response!.status / 100)}xx`
+              ];
+        const name = keys.find(key =>
+            Object.prototype.hasOwnProperty.call(policies, key)
+        );
+        return name ?? 'default';
+    }
+
+    function getAttemptOutcome(): CircuitOutcome {
+        if (error) {
+            return isErrorThatHaveToBeRetried(error) ? 'failure' : 'ignored';
+        }
+        return isResponseThatHaveToBeRetried(response!) ? 'failure' : 'success';
+    }
+
+    async function fetchHedgedAttempt(
+        request: AttemptRequest,
+        origin: string
+    ): Promise<{ response: Response; hedge: number }> {
+        const { response, error, hedges, winner } = await fetchHedged(
+            async (hedge, hedgeSignal) => {
+                const init: RequestInit = {
+                    ...request.init,
+                    body: getHedgeBody(request, hedge),
+                    signal: composeSignal(request.init.signal, hedgeSignal)
+                };
+                if (hedge === 0) {
+                    return fetchImplementation(request.url, init);
                 }
-            }
+                // the first request uses the slot of the attempt, the next ones acquire their own
+                await rateLimiter?.acquire(origin, init.signal);
+                const releaseSlot = await requestQueue?.acquire(origin, {
+                    priority,
+                    signal: init.signal
+                });
+                try {
+                    return await fetchImplementation(request.url, init);
+                } finally {
+                    releaseSlot?.();
+                }
+            },
+            hedging!,
+            response => !isResponseThatHaveToBeRetried(response),
+            clock
+        );
+        if (typeof onHedge === 'function') {
+            onHedge({ attempt, hedges, winner });
         }
-        return null;
+        if (!response) {
+            throw error;
+        }
+        return { response, hedge: winner! };
+    }
+
+    function getHedgeBody(
+        request: AttemptRequest,
+        hedge: number
+    ): RequestInit['body'] {
+        const { body } = request.init;
+        // a one-shot body is consumed by the first request, the next ones get a fresh copy
+        return hedge === 0 || !isOneShotBody(body) ? body : getBody();
+    }
+
+    function notifyRetrySkipped(reason: OnRetrySkipped['reason']): void {
+        if (typeof onRetrySkipped === 'function') {
+            onRetrySkipped({ error, response, attempt, reason });
+        }
+    }
+
+    async function getShouldRetryDecision(
+        { url, init }: AttemptRequest,
+        retryable: boolean
+    ): Promise<boolean | 'default' | { delay: number }> {
+        if (typeof shouldRetry !== 'function') {
+            return 'default';
+        }
+        const decision = await shouldRetry({
+            attempt,
+            response,
+            error,
+            request: { url, init },
+            elapsed: clock.now() - startTime,
+            retryable
+        });
+        return decision ?? 'default';
     }
 
-    function getDelayFromSeconds(seconds: number): number {
-        return Math.min(seconds * 1000, rateLimit.maxDelay);
+    function getIdempotency(
+        rateLimitRetry: boolean,
+        explicitRetry: boolean
+    ): Idempotency | null {
+        switch (true) {
+            case requestIdempotency !== null:
+                return requestIdempotency;
+            case retryNonIdempotent:
+                return 'retry-non-idempotent';
+            case explicitRetry:
+                return 'should-retry';
+            case rateLimitRetry || response?.status === 429:
+                return 'rate-limited';
+            case NOT_SENT_ERROR_CODES.includes(error?.cause?.code):
+                return 'not-sent';
+            default:
+                return null;
+        }
+    }
+
+    function hasExceededMaxElapsedTime(delay: number): boolean {
+        return clock.now() - startTime + delay > maxElapsedTime;
     }
 
-    function getDelayFromEpochSeconds(epochSeconds: number): number {
-        const delayMs = epochSeconds * 1000 - Date.now();
-        return Math.min(delayMs, rateLimit.maxDelay);
+    function getRateLimitDelay(response: Response): number | null {
+        for (const rateLimitHeader of rateLimitHeaders) {
+            const { header, valueType, statusCodes } = rateLimitHeader;
+            if (!statusCodes.includes(response.status)) {
+                continue;
+            }
+            const delay = getRateLimitHeaderDelay(
+                response,
+                header,
+                valueType,
+                clock.now()
+            );
+            if (delay !== null) {
+                return Math.min(delay, rateLimit.maxDelay);
+            }
+        }
+        return null;
     }
 
-    function getDelayFromMilliSeconds(milliSeconds: number): number {
-        return Math.min(milliSeconds, rateLimit.maxDelay);
+    function getDelay({ options, state }: Policy): number {
+        const { initialDelay, factor, maxDelay } = options;
+        return Math.min(
+            applyJitter(
+                initialDelay * Math.pow(factor, state.retries + 1),
+                options,
+                state.previousDelay
+            ),
+            maxDelay
+        );
     }
 
-    function getDelay(retries: number): number {
-        return initialDelay * Math.pow(factor, retries);
+    function applyJitter(
+        delay: number,
+        { jitter, initialDelay }: RetryPolicy,
+        previousDelay: number
+    ): number {
+        switch (jitter) {
+            case 'none':
+                return delay;
+            case 'full':
+                return random() * delay;
+            case 'equal':
+                return delay / 2 + (random() * delay) / 2;
+            case 'decorrelated':
+                return (
+                    initialDelay + random() * (previousDelay * 3 - initialDelay)
+                );
+            default:
+                return jitter({ delay, previousDelay, initialDelay, random });
+        }
     }
 
     function mergeWithDefaultOptions(
@@ -175,6 +901,12 @@ export async function fetchWithRetries(
             maxRetries: 3,
             initialDelay: 1000,
             factor: 2,
+            maxDelay: Infinity,
+            maxElapsedTime: Infinity,
+            jitter: 'none',
+            policies: {},
+            random: Math.random,
+            retryNonIdempotent: false,
             rateLimit: {
                 maxRetries: 10,
                 maxDelay: 60_000,
@@ -185,12 +917,24 @@ export async function fetchWithRetries(
         };
     }
 
-    function getRateLimitHeaders(rateLimit: RateLimitOptions) {
+    function getRateLimitHeaders(
+        rateLimit: RateLimitOptions
+    ): Required<CustomHeader>[] {
         return [
             {
                 // We check for 429 and 503 Retry-After header value if set
                 // see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
                 header: 'Retry-After',
+                valueType: 'retry-after',
+                statusCodes: [429, 503]
+            },
+            {
+                header: 'RateLimit',
+                valueType: 'ratelimit',
+                statusCodes: [429, 503]
+            },
+            {
+                header: 'RateLimit-Reset',
                 valueType: 'wait-seconds',
                 statusCodes: [429, 503]
             },
@@ -201,69 +945,148 @@ export async function fetchWithRetries(
             },
             ...rateLimit.customHeaders.map(c => ({
                 ...c,
-                statusCodes: [429]
+                statusCodes: c.statusCodes ?? [429]
             }))
         ];
     }
 
     function composeSignal(
         signal?: AbortSignal | null,
-        timeout?: number
+        timeoutOrSignal?: number | AbortSignal
     ): AbortSignal | null {
+        let otherSignal: AbortSignal | undefined;
+        if (typeof timeoutOrSignal !== 'number') {
+            otherSignal = timeoutOrSignal;
+        } else if (timeoutOrSignal) {
+            const timeout = timeoutSignal(timeoutOrSignal, clock);
+            timeouts.push(timeout);
+            otherSignal = timeout.signal;
+        }
         switch (true) {
-            case !!signal && !timeout:
+            case !!signal && !otherSignal:
                 return signal;
-            case !signal && !!timeout:
-                return AbortSignal.timeout(timeout);
-            case !!signal && !!timeout:
+            case !signal && !!otherSignal:
+                return otherSignal;
+            case !!signal && !!otherSignal:
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                return (AbortSignal as any).any([
-                    signal,
-                    AbortSignal.timeout(timeout)
-                ]);
+                return (AbortSignal as any).any([signal, otherSignal]);
             default:
                 return null;
         }
     }
 }
 
-function getRateLimitHeaderValue(header: string, response: Response): number {
-    return parseInt(response.headers.get(header) || '', 10);
+function getHeaders(
+    headersInit?: RequestInit['headers'],
+    idempotencyKey?: boolean | string | (() => string)
+): Headers {
+    const headers = new Headers(headersInit);
+    if (idempotencyKey && !headers.has(IDEMPOTENCY_KEY_HEADER)) {
+        headers.set(
+            IDEMPOTENCY_KEY_HEADER,
+            getIdempotencyKeyValue(idempotencyKey)
+        );
+    }
+    return headers;
 }
 
-function isResponseThatHaveToBeRetried(response: Response): boolean {
-    return !response.ok && RETRY_STATUS_CODES.includes(response.status);
+function getIdempotencyKeyValue(
+    idempotencyKey: true | string | (() => string)
+): string {
+    switch (typeof idempotencyKey) {
+        case 'string':
+            return idempotencyKey;
+        case 'function':
+            return idempotencyKey();
+        default:
+            return randomUUID();
+    }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function isErrorThatHaveToBeRetried(error: any): boolean {
+function getRequestIdempotency(
+    method: string = 'GET',
+    headers: Headers
+): Idempotency | null {
+    if (IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+        return 'idempotent-method';
+    }
+    if (headers.has(IDEMPOTENCY_KEY_HEADER)) {
+        return 'idempotency-key';
+    }
+    return null;
+}
+
+async function getBodyFactory(
+    body: Body | (() => Body),
+    maxBodyBufferSize: number
+): Promise<() => Body> {
+    if (typeof body === 'function') {
+        return body;
+    }
+    if (isOneShotBody(body)) {
+        const buffer = await bufferBody(body, maxBodyBufferSize);
+        return () => buffer;
+    }
+    return () => body;
+}
+
+async function bufferBody(
+    body: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+    maxBodyBufferSize: number
+): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of body) {
+        const buffer = Buffer.from(chunk);
+        size += buffer.length;
+        if (size > maxBodyBufferSize) {
+            throw new NonReplayableBodyError(
+                `Request body can be read only once and exceeds maxBodyBufferSize of ${maxBodyBufferSize} bytes, provide a function returning the body instead`
+            );
+        }
+        chunks.push(buffer);
+    }
+    return Buffer.concat(chunks);
+}
+
+function isOneShotBody(
+    body: Body
+): body is AsyncIterable<Uint8Array> | Iterable<Uint8Array> {
     return (
-        (error?.cause?.code && RETRY_ERROR_CODES.includes(error.cause.code)) ||
-        error.name === 'TimeoutError'
+        typeof body === 'object' &&
+        body !== null &&
+        (Symbol.asyncIterator in body ||
+            (Symbol.iterator in body && 'next' in body))
     );
 }
 
-function wait(
-    durationInMilliseconds: number,
-    signal?: AbortSignal | null
-): Promise<void> {
-    return new Promise<void>(resolve => {
-        signal?.addEventListener('abort', handleAbort);
-
-        const internalTimer = setTimeout(
-            internalResolve,
-            durationInMilliseconds
-        );
+function isReplayableBody(
+    body: RequestInit['body'],
+    attemptBody: RequestInit['body']
+): boolean {
+    // a one-shot body set by a beforeRequest hook cannot be copied for the hedges
+    return !isOneShotBody(body) || body === attemptBody;
+}
 
-        function internalResolve() {
-            signal?.removeEventListener('abort', handleAbort);
-            resolve();
-        }
+/**
+ * Built-in condition to retry a response, can be used by custom shouldRetry functions.
+ * @param response fetch response
+ * @returns {boolean} true if the response status code is one of RETRY_STATUS_CODES
+ */
+export function isResponseThatHaveToBeRetried(response: Response): boolean {
+    return !response.ok && RETRY_STATUS_CODES.includes(response.status);
+}
 
-        function handleAbort() {
-            signal?.removeEventListener('abort', handleAbort);
-            clearTimeout(internalTimer);
-            resolve();
-        }
-    });
+/**
+ * Built-in condition to retry an error, can be used by custom shouldRetry functions.
+ * @param error fetch error
+ * @returns {boolean} true if the error cause code is one of RETRY_ERROR_CODES, it is a timeout error or a ResponseValidationError
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function isErrorThatHaveToBeRetried(error: any): boolean {
+    return (
+        (error?.cause?.code && RETRY_ERROR_CODES.includes(error.cause.code)) ||
+        error.name === 'TimeoutError' ||
+        error instanceof ResponseValidationError
+    );
 }
@@ -0,0 +1,61 @@
+import { FRESH_CONNECTION_ERROR_CODES } from './retry-codes';
+
+/**
+ * undici Dispatcher (i.e.: Agent, Pool) used by fetch to get the connections
+ */
+export type Dispatcher = NonNullable<RequestInit['dispatcher']>;
+
+export type FreshConnectionOptions = {
+    /**
+     * Function creating the dispatcher used by the attempts following a connection error (i.e.: () => new Agent()).
+     * The dispatchers created are closed once the retry sequence ends.
+     */
+    createDispatcher: () => Dispatcher;
+    /**
+     * Error codes switching to a new dispatcher, default FRESH_CONNECTION_ERROR_CODES
+     */
+    errorCodes?: string[];
+};
+
+export type DispatcherSwitch = {
+    getDispatcher(): Dispatcher | undefined;
+    switchOnError(error: any): void; // eslint-disable-line @typescript-eslint/no-explicit-any
+    close(): void;
+};
+
+/**
+ * Creates the switch giving the dispatcher of each attempt, so that a poisoned keep-alive socket is not reused after a connection error.
+ * @param {FreshConnectionOptions} freshConnection fresh connection options, when not set the dispatcher is never switched
+ * @param {Dispatcher} dispatcher dispatcher used until the first connection error
+ * @returns {DispatcherSwitch} dispatcher switch
+ */
+export function createDispatcherSwitch(
+    freshConnection?: FreshConnectionOptions,
+    dispatcher?: Dispatcher
+): DispatcherSwitch {
+    const createdDispatchers: Dispatcher[] = [];
+    let currentDispatcher = dispatcher;
+
+    return {
+        getDispatcher: () => currentDispatcher,
+        switchOnError,
+        close
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    function switchOnError(error: any): void {
+        const errorCodes =
+            freshConnection?.errorCodes ?? FRESH_CONNECTION_ERROR_CODES;
+        if (freshConnection && errorCodes.includes(error?.cause?.code)) {
+            currentDispatcher = freshConnection.createDispatcher();
+            createdDispatchers.push(currentDispatcher);
+        }
+    }
+
+    function close(): void {
+        // close waits gracefully for the response body still being read, so it is not awaited
+        for (const createdDispatcher of createdDispatchers) {
+            createdDispatcher.close().catch(() => {});
+        }
+    }
+}
@@ -0,0 +1,109 @@
+import { Clock } from './clock';
+
+export type HedgingOptions = {
+    /**
+     * Time in milliseconds to wait for an answer before firing a parallel request.
+     */
+    hedgeDelay: number;
+    /**
+     * Max number of parallel requests fired in addition to the first one.
+     */
+    maxHedges: number;
+};
+
+export type HedgedResult = {
+    response: Response | null;
+    error?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    /**
+     * Number of requests fired, including the first one
+     */
+    hedges: number;
+    /**
+     * Index of the request that settled the result, 0 being the first one, null if all the requests failed with an error
+     */
+    winner: number | null;
+};
+
+/**
+ * Fires a request and, every hedgeDelay without a winning response, a parallel one up to maxHedges.
+ * The first winning response is returned and the other requests are aborted through their own signal.
+ * When all the requests fire without a winning response, the last response received is returned, or the last error if none.
+ * @param fetchHedge function firing the request with the given index and signal
+ * @param {HedgingOptions} hedging hedging options
+ * @param isWinner function checking if a response wins
+ * @param {Clock} clock clock measuring the hedgeDelay
+ * @returns {Promise<HedgedResult>} promise of the hedged result
+ */
+export function fetchHedged(
+    fetchHedge: (hedge: number, signal: AbortSignal) => Promise<Response>,
+    { hedgeDelay, maxHedges }: HedgingOptions,
+    isWinner: (response: Response) => boolean,
+    clock: Clock
+): Promise<HedgedResult> {
+    return new Promise<HedgedResult>(resolve => {
+        const controllers: AbortController[] = [];
+        let pending = 0;
+        let settled = false;
+        let timer: unknown = null;
+        let lastResponse: { response: Response; hedge: number } | null = null;
+        let lastError: unknown = null;
+
+        fire();
+
+        function fire() {
+            const hedge = controllers.length;
+            const controller = new AbortController();
+            controllers.push(controller);
+            pending++;
+            if (hedge < maxHedges) {
+                timer = clock.setTimeout(fire, hedgeDelay);
+            }
+            fetchHedge(hedge, controller.signal).then(
+                response => {
+                    pending--;
+                    if (settled) {
+                        return;
+                    }
+                    if (isWinner(response)) {
+                        settle({ response, winner: hedge });
+                        return;
+                    }
+                    lastResponse = { response, hedge };
+                    settleIfAllFailed();
+                },
+                error => {
+                    pending--;
+                    lastError = error;
+                    settleIfAllFailed();
+                }
+            );
+        }
+
+        function settleIfAllFailed() {
+            if (settled || pending > 0) {
+                return;
+            }
+            if (lastResponse) {
+                settle({
+                    response: lastResponse.response,
+                    winner: lastResponse.hedge
+                });
+            } else {
+                settle({ response: null, error: lastError, winner: null });
+            }
+        }
+
+        function settle(result: Omit<HedgedResult, 'hedges'>) {
+            settled = true;
+            if (timer) {
+                clock.clearTimeout(timer);
+            }
+            controllers.forEach((controller, hedge) => {
+                if (hedge !== result.winner) {
+                    controller.abort();
+                }
+            });
+            resolve({ ...result, hedges: controllers.length });
+        }
+    });
+}
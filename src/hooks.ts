@@ -0,0 +1,123 @@
+import type { OnRetry } from './fetch-with-retries';
+
+export type AttemptRequest = {
+    url: string;
+    init: RequestInit;
+    attempt: number;
+};
+
+/**
+ * Called before each attempt, it can mutate the request init or return a new request.
+ */
+export type BeforeRequestHook = (
+    request: AttemptRequest
+) => void | AttemptRequest | Promise<void | AttemptRequest>;
+
+/**
+ * Called after each attempt with a response, it can return a new response replacing the received one.
+ */
+export type AfterResponseHook = (
+    response: Response,
+    request: AttemptRequest
+) => void | Response | Promise<void | Response>;
+
+/**
+ * Called before waiting to retry, it can return false to veto the retry or a new delay in milliseconds.
+ */
+export type BeforeRetryHook = (
+    params: OnRetry
+) =>
+    | void
+    | boolean
+    | { delay: number }
+    | Promise<void | boolean | { delay: number }>;
+
+/**
+ * Called after each attempt failing with an error.
+ */
+export type OnErrorHook = (
+    error: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+    request: AttemptRequest
+) => void | Promise<void>;
+
+/**
+ * Hooks run in order as a middleware chain around each attempt, each hook receiving the output of the previous one.
+ */
+export type Hooks = {
+    beforeRequest?: BeforeRequestHook[];
+    afterResponse?: AfterResponseHook[];
+    beforeRetry?: BeforeRetryHook[];
+    onError?: OnErrorHook[];
+};
+
+export async function runBeforeRequestHooks(
+    hooks: Hooks,
+    request: AttemptRequest
+): Promise<AttemptRequest> {
+    for (const hook of hooks.beforeRequest ?? []) {
+        request = (await hook(request)) ?? request;
+    }
+    return request;
+}
+
+export async function runAfterResponseHooks(
+    hooks: Hooks,
+    response: Response,
+    request: AttemptRequest
+): Promise<Response> {
+    for (const hook of hooks.afterResponse ?? []) {
+        response = (await hook(response, request)) ?? response;
+    }
+    return response;
+}
+
+/**
+ * @returns {Promise<boolean>} false if a hook vetoed the retry, the params delay is updated if a hook returned a new delay
+ */
+export async function runBeforeRetryHooks(
+    hooks: Hooks,
+    params: OnRetry
+): Promise<boolean> {
+    for (const hook of hooks.beforeRetry ?? []) {
+        const result = await hook(params);
+        if (result === false) {
+            return false;
+        }
+        if (typeof result === 'object') {
+            params.delay = result.delay;
+        }
+    }
+    return true;
+}
+
+export async function runOnErrorHooks(
+    hooks: Hooks,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    error: any,
+    request: AttemptRequest
+): Promise<void> {
+    for (const hook of hooks.onError ?? []) {
+        await hook(error, request);
+    }
+}
+
+/**
+ * Concatenates the hooks of each kind, the hooks of the first argument run first.
+ */
+export function mergeHooks(defaultHooks: Hooks = {}, hooks: Hooks = {}): Hooks {
+    return {
+        beforeRequest: [
+            ...(defaultHooks.beforeRequest ?? []),
+            ...(hooks.beforeRequest ?? [])
+        ],
+        afterResponse: [
+            ...(defaultHooks.afterResponse ?? []),
+            ...(hooks.afterResponse ?? [])
+        ],
+        beforeRetry: [
+            ...(defaultHooks.beforeRetry ?? []),
+            ...(hooks.beforeRetry ?? [])
+        ],
+        onError: [...(defaultHooks.onError ?? []), ...(hooks.onError ?? [])]
+    };
+}
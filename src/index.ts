@@ -1 +1,32 @@
 export * from './fetch-with-retries';
+export * from './fetch-body-with-retries';
+export * from './create-fetch-with-retries';
+export type { AuthOptions } from './auth';
+export * from './circuit-breaker';
+export { createVirtualClock } from './clock';
+export type { Clock, VirtualClock } from './clock';
+export * from './download-with-retries';
+export { createEndpointPool } from './endpoint-pool';
+export type {
+    EndpointPool,
+    EndpointPoolOptions,
+    EndpointStrategy
+} from './endpoint-pool';
+export * from './errors';
+export type { FetchInput } from './fetch-input';
+export type { Dispatcher, FreshConnectionOptions } from './fresh-connection';
+export type { HedgingOptions } from './hedging';
+export type {
+    AfterResponseHook,
+    AttemptRequest,
+    BeforeRequestHook,
+    BeforeRetryHook,
+    Hooks,
+    OnErrorHook
+} from './hooks';
+export type { RateLimitValueType } from './rate-limit-headers';
+export * from './rate-limiter';
+export * from './request-queue';
+export * from './retry-budget';
+export * from './retry-codes';
+export * from './wrap-fetch';
@@ -0,0 +1,123 @@
+/**
+ * How the value of a rate limit header is interpreted:
+ * - wait-seconds: seconds to wait, fractional values allowed
+ * - wait-milliseconds: milliseconds to wait
+ * - reset-utc-epoch-seconds: UTC epoch in seconds when the quota resets
+ * - http-date: HTTP-date when the quota resets (i.e.: Wed, 21 Oct 2026 07:28:00 GMT)
+ * - retry-after: seconds to wait or HTTP-date, see https://www.rfc-editor.org/rfc/rfc9110#field.retry-after
+ * - ratelimit: IETF RateLimit structured header, with the window of the RateLimit-Policy header as fallback,
+ *   see https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/
+ */
+export type RateLimitValueType =
+    | 'wait-seconds'
+    | 'wait-milliseconds'
+    | 'reset-utc-epoch-seconds'
+    | 'http-date'
+    | 'retry-after'
+    | 'ratelimit';
+
+type StructuredMember = {
+    key: string;
+    value: string;
+    params: Record<string, string>;
+};
+
+/**
+ * Gets the delay advertised by a rate limit header of the response.
+ * A reset already in the past gives a delay of 0.
+ * @param response fetch response
+ * @param header header name
+ * @param {RateLimitValueType} valueType how the header value is interpreted
+ * @param now current time in milliseconds since epoch
+ * @returns {number | null} delay in milliseconds, or null if the header is missing or not valid
+ */
+export function getRateLimitHeaderDelay(
+    response: Response,
+    header: string,
+    valueType: RateLimitValueType,
+    now: number
+): number | null {
+    const value = response.headers.get(header);
+    if (value === null) {
+        return null;
+    }
+    const delay = parseDelay(value);
+    return Number.isNaN(delay) ? null : Math.max(0, delay);
+
+    function parseDelay(value: string): number {
+        switch (valueType) {
+            case 'wait-seconds':
+                return parseNumber(value) * 1000;
+            case 'wait-milliseconds':
+                return parseNumber(value);
+            case 'reset-utc-epoch-seconds':
+                return parseNumber(value) * 1000 - now;
+            case 'http-date':
+                return Date.parse(value) - now;
+            case 'retry-after':
+                return Number.isNaN(parseNumber(value))
+                    ? Date.parse(value) - now
+                    : parseNumber(value) * 1000;
+            case 'ratelimit':
+                return parseRateLimit(
+                    value,
+                    response.headers.get(`${header}-Policy`)
+                );
+        }
+    }
+}
+
+function parseNumber(value: string): number {
+    const trimmed = value.trim();
+    return /^\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : NaN;
+}
+
+/**
+ * Parses both the dictionary form (limit=10, remaining=0, reset=5) and the
+ * list form ("default";r=0;t=5) of the RateLimit header. In the list form
+ * only the exhausted quotas (r=0) are taken into account, waiting for the
+ * reset (t) of the longest one or for the window (w) of its policy.
+ */
+function parseRateLimit(value: string, policyValue: string | null): number {
+    const members = parseStructuredList(value);
+    const reset = members.find(m => m.key === 'reset');
+    if (reset) {
+        return parseNumber(reset.value) * 1000;
+    }
+    const policies = parseStructuredList(policyValue || '');
+    const delays = members
+        .filter(m => parseNumber(m.params.r ?? '') === 0)
+        .map(m => {
+            const policy = policies.find(p => p.key === m.key);
+            return parseNumber(m.params.t ?? policy?.params.w ?? '') * 1000;
+        })
+        .filter(delay => !Number.isNaN(delay));
+    return delays.length > 0 ? Math.max(...delays) : NaN;
+}
+
+function parseStructuredList(value: string): StructuredMember[] {
+    return value
+        .split(',')
+        .map(member => member.trim())
+        .filter(member => member.length > 0)
+        .map(member => {
+            const [item, ...params] = member.split(';').map(p => p.trim());
+            const [key, itemValue = ''] = splitKeyValue(item);
+            return {
+                key: unquote(key),
+                value: itemValue,
+                params: Object.fromEntries(params.map(splitKeyValue))
+            };
+        });
+}
+
+function splitKeyValue(value: string): [string, string] {
+    const index = value.indexOf('=');
+    return index === -1
+        ? [value, '']
+        : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"(.*)"$/, '$1');
+}
@@ -0,0 +1,168 @@
+import { Clock, systemClock } from './clock';
+import { wait, waitFor } from './wait';
+
+export type RateLimiterOptions = {
+    /**
+     * Max number of requests per interval to each origin. Default is Infinity, relying only on the quota headers.
+     */
+    requestsPerInterval: number;
+    /**
+     * Interval in milliseconds of requestsPerInterval. Default is 1 second.
+     */
+    interval: number;
+    /**
+     * Response header with the number of requests remaining in the current quota window. Default is X-RateLimit-Remaining.
+     */
+    remainingHeader: string;
+    /**
+     * Response header with the time the current quota window resets. Default is X-RateLimit-Reset.
+     */
+    resetHeader: string;
+    resetValueType:
+        | 'wait-seconds'
+        | 'reset-utc-epoch-seconds'
+        | 'wait-milliseconds';
+    /**
+     * Clock measuring the quota windows. Default is the system clock.
+     */
+    clock: Clock;
+};
+
+export type RateLimiter = {
+    /**
+     * Waits, in FIFO order, until a request to the origin is allowed by the quota.
+     * @returns {Promise<void>} promise rejected with the abort reason if the signal aborts while waiting
+     */
+    acquire(origin: string, signal?: AbortSignal | null): Promise<void>;
+    /**
+     * Learns the quota of the origin from the response headers.
+     */
+    update(origin: string, response: Response): void;
+    getQueueLength(origin: string): number;
+};
+
+type Quota = {
+    windowStart: number;
+    requests: number;
+    remaining: number | null;
+    resetAt: number | null;
+    queue: Promise<void>;
+    queueLength: number;
+};
+
+/**
+ * Creates a rate limiter keyed by origin, to be shared by the requests through the rateLimiter option,
+ * that queues the requests to stay under a static quota or the quota advertised by the response headers.
+ * @param {Partial<RateLimiterOptions>} options rate limiter options, a default value is applied to each field if not provided.
+ * @returns {RateLimiter} rate limiter
+ */
+export function createRateLimiter(
+    options: Partial<RateLimiterOptions> = {}
+): RateLimiter {
+    const {
+        requestsPerInterval,
+        interval,
+        remainingHeader,
+        resetHeader,
+        resetValueType,
+        clock
+    }: RateLimiterOptions = {
+        requestsPerInterval: Infinity,
+        interval: 1000,
+        remainingHeader: 'X-RateLimit-Remaining',
+        resetHeader: 'X-RateLimit-Reset',
+        resetValueType: 'reset-utc-epoch-seconds',
+        clock: systemClock,
+        ...options
+    };
+    const quotas = new Map<string, Quota>();
+
+    return {
+        async acquire(origin, signal) {
+            const quota = getQuota(origin);
+            const previous = quota.queue;
+            let release!: () => void;
+            const current = new Promise<void>(resolve => (release = resolve));
+            quota.queue = Promise.all([previous, current]).then(() => {});
+            quota.queueLength++;
+            try {
+                await waitFor(previous, signal);
+                let delay = getDelay(quota);
+                while (delay > 0) {
+                    await wait(delay, signal, clock);
+                    signal?.throwIfAborted();
+                    delay = getDelay(quota);
+                }
+                quota.requests++;
+                if (quota.remaining !== null) {
+                    quota.remaining--;
+                }
+            } finally {
+                quota.queueLength--;
+                release();
+            }
+        },
+        update(origin, response) {
+            const remaining = parseInt(
+                response.headers.get(remainingHeader) ?? '',
+                10
+            );
+            const reset = parseFloat(response.headers.get(resetHeader) ?? '');
+            if (!Number.isInteger(remaining) || !Number.isFinite(reset)) {
+                return;
+            }
+            const quota = getQuota(origin);
+            quota.remaining = remaining;
+            quota.resetAt = getResetAt(reset);
+        },
+        getQueueLength(origin) {
+            return quotas.get(origin)?.queueLength ?? 0;
+        }
+    };
+
+    function getQuota(origin: string): Quota {
+        let quota = quotas.get(origin);
+        if (!quota) {
+            quota = {
+                windowStart: clock.now(),
+                requests: 0,
+                remaining: null,
+                resetAt: null,
+                queue: Promise.resolve(),
+                queueLength: 0
+            };
+            quotas.set(origin, quota);
+        }
+        return quota;
+    }
+
+    function getDelay(quota: Quota): number {
+        const now = clock.now();
+        if (quota.resetAt !== null && quota.resetAt <= now) {
+            quota.remaining = null;
+            quota.resetAt = null;
+        }
+        if (quota.remaining !== null && quota.remaining <= 0) {
+            return quota.resetAt! - now;
+        }
+        if (now - quota.windowStart >= interval) {
+            quota.windowStart = now;
+            quota.requests = 0;
+        }
+        if (quota.requests >= requestsPerInterval) {
+            return quota.windowStart + interval - now;
+        }
+        return 0;
+    }
+
+    function getResetAt(reset: number): number {
+        switch (resetValueType) {
+            case 'wait-seconds':
+                return clock.now() + reset * 1000;
+            case 'reset-utc-epoch-seconds':
+                return reset * 1000;
+            case 'wait-milliseconds':
+                return clock.now() + reset;
+        }
+    }
+}
@@ -0,0 +1,162 @@
+export type RequestQueueOptions = {
+    /**
+     * Max number of attempts in flight across all the origins. Default is Infinity.
+     */
+    maxConcurrency: number;
+    /**
+     * Max number of attempts in flight to each origin. Default is Infinity.
+     */
+    maxConcurrencyPerOrigin: number;
+};
+
+export type RequestQueueAcquireOptions = {
+    /**
+     * Entries with a higher priority are served first. Default is 0.
+     */
+    priority?: number;
+    signal?: AbortSignal | null;
+};
+
+export type RequestQueue = {
+    /**
+     * Waits for a free slot to send an attempt to the origin. Entries with a higher priority are served first,
+     * entries with the same priority are served in turn across the origins and in FIFO order within an origin.
+     * @returns {Promise<() => void>} promise of the function releasing the slot, rejected with the abort reason if the signal aborts while waiting
+     */
+    acquire(
+        origin: string,
+        options?: RequestQueueAcquireOptions
+    ): Promise<() => void>;
+    /**
+     * Gets the number of entries waiting for a slot, optionally only the ones to the origin.
+     */
+    getDepth(origin?: string): number;
+    /**
+     * Gets the number of slots in use, optionally only the ones to the origin.
+     */
+    getInFlight(origin?: string): number;
+};
+
+type Entry = {
+    origin: string;
+    priority: number;
+    sequence: number;
+    grant: () => void;
+};
+
+/**
+ * Creates a queue limiting the attempts in flight, to be shared by the requests through the requestQueue option.
+ * A slot is held only while an attempt is in flight, so requests waiting for a retry do not take one.
+ * @param {Partial<RequestQueueOptions>} options request queue options, a default value is applied to each field if not provided.
+ * @returns {RequestQueue} request queue
+ */
+export function createRequestQueue(
+    options: Partial<RequestQueueOptions> = {}
+): RequestQueue {
+    const { maxConcurrency, maxConcurrencyPerOrigin }: RequestQueueOptions = {
+        maxConcurrency: Infinity,
+        maxConcurrencyPerOrigin: Infinity,
+        ...options
+    };
+    const entries: Entry[] = [];
+    const inFlight = new Map<string, number>();
+    const lastServed = new Map<string, number>();
+    let totalInFlight = 0;
+    let lastSequence = 0;
+    let lastServedSequence = 0;
+
+    return {
+        acquire(origin, { priority = 0, signal } = {}) {
+            return new Promise<() => void>((resolve, reject) => {
+                if (signal?.aborted) {
+                    reject(signal.reason);
+                    return;
+                }
+                const entry: Entry = {
+                    origin,
+                    priority,
+                    sequence: ++lastSequence,
+                    grant: () => {
+                        signal?.removeEventListener('abort', handleAbort);
+                        resolve(createRelease(origin));
+                    }
+                };
+                entries.push(entry);
+                signal?.addEventListener('abort', handleAbort);
+                dispatch();
+
+                function handleAbort() {
+                    signal!.removeEventListener('abort', handleAbort);
+                    entries.splice(entries.indexOf(entry), 1);
+                    reject(signal!.reason);
+                }
+            });
+        },
+        getDepth(origin) {
+            return origin === undefined
+                ? entries.length
+                : entries.filter(entry => entry.origin === origin).length;
+        },
+        getInFlight(origin) {
+            return origin === undefined
+                ? totalInFlight
+                : (inFlight.get(origin) ?? 0);
+        }
+    };
+
+    function dispatch(): void {
+        for (let entry = getNextEntry(); entry; entry = getNextEntry()) {
+            entries.splice(entries.indexOf(entry), 1);
+            totalInFlight++;
+            inFlight.set(entry.origin, (inFlight.get(entry.origin) ?? 0) + 1);
+            lastServed.set(entry.origin, ++lastServedSequence);
+            entry.grant();
+        }
+    }
+
+    function getNextEntry(): Entry | undefined {
+        if (totalInFlight >= maxConcurrency) {
+            return undefined;
+        }
+        let next: Entry | undefined;
+        for (const entry of entries) {
+            if (
+                (inFlight.get(entry.origin) ?? 0) < maxConcurrencyPerOrigin &&
+                (!next || isServedBefore(entry, next))
+            ) {
+                next = entry;
+            }
+        }
+        return next;
+    }
+
+    function isServedBefore(entry: Entry, other: Entry): boolean {
+        if (entry.priority !== other.priority) {
+            return entry.priority > other.priority;
+        }
+        const entryLastServed = lastServed.get(entry.origin) ?? 0;
+        const otherLastServed = lastServed.get(other.origin) ?? 0;
+        if (entryLastServed !== otherLastServed) {
+            return entryLastServed < otherLastServed;
+        }
+        return entry.sequence < other.sequence;
+    }
+
+    function createRelease(origin: string): () => void {
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            totalInFlight--;
+            const originInFlight = inFlight.get(origin)! - 1;
+            if (originInFlight === 0) {
+                inFlight.delete(origin);
+            } else {
+                inFlight.set(origin, originInFlight);
+            }
+            dispatch();
+        };
+    }
+}
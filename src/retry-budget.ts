@@ -0,0 +1,69 @@
+export type RetryBudgetOptions = {
+    /**
+     * Max number of tokens in the budget, it is full when created. Default is 10.
+     */
+    maxTokens: number;
+    /**
+     * Tokens deposited by each successful attempt. Default is 0.1, allowing 1 retry every 10 successful attempts.
+     */
+    depositPerSuccess: number;
+    /**
+     * Tokens withdrawn by each retry. Default is 1.
+     */
+    retryCost: number;
+};
+
+export type RetryBudget = {
+    getTokens(): number;
+    /**
+     * Deposits the tokens of a successful attempt.
+     */
+    deposit(): void;
+    /**
+     * Withdraws the tokens of a retry.
+     * @returns {boolean} false, without withdrawing, if the budget does not have enough tokens
+     */
+    tryWithdraw(): boolean;
+};
+
+/**
+ * Creates a retry budget, a token bucket shared by the requests through the retryBudget option
+ * to stop retry storms, see https://github.com/grpc/proposal/blob/master/A6-client-retries.md#retry-throttling
+ * @param {Partial<RetryBudgetOptions>} options retry budget options, a default value is applied to each field if not provided.
+ * @returns {RetryBudget} retry budget
+ */
+export function createRetryBudget(
+    options: Partial<RetryBudgetOptions> = {}
+): RetryBudget {
+    const { maxTokens, depositPerSuccess, retryCost }: RetryBudgetOptions = {
+        maxTokens: 10,
+        depositPerSuccess: 0.1,
+        retryCost: 1,
+        ...options
+    };
+    let tokens = maxTokens;
+
+    return {
+        getTokens() {
+            return tokens;
+        },
+        deposit() {
+            tokens = Math.min(
+                roundTokens(tokens + depositPerSuccess),
+                maxTokens
+            );
+        },
+        tryWithdraw() {
+            if (tokens < retryCost) {
+                return false;
+            }
+            tokens = roundTokens(tokens - retryCost);
+            return true;
+        }
+    };
+}
+
+// Tokens are rounded to thousandths to avoid floating point drift, as gRPC does
+function roundTokens(tokens: number): number {
+    return Math.round(tokens * 1000) / 1000;
+}
@@ -30,6 +30,7 @@ export const RETRY_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
  * - ENETRESET: Network connection reset
  * - ENETUNREACH: Network is unreachable
  * - ECONNABORTED: Connection aborted
+ * - UND_ERR_SOCKET: Socket closed by the other side (i.e.: connection reset while reading the response body)
  */
 export const RETRY_ERROR_CODES = [
     'ENOTFOUND',
@@ -43,5 +44,37 @@ export const RETRY_ERROR_CODES = [
     'ENETDOWN',
     'ENETRESET',
     'ENETUNREACH',
-    'ECONNABORTED'
+    'ECONNABORTED',
+    'UND_ERR_SOCKET'
+];
+
+/**
+ * Array of error codes raised before the request reached the server.
+ * Requests failing with these error codes can be safely retried even when their method is not idempotent.
+ */
+export const NOT_SENT_ERROR_CODES = [
+    'ENOTFOUND',
+    'ECONNREFUSED',
+    'EAI_AGAIN',
+    'EHOSTDOWN',
+    'EHOSTUNREACH',
+    'ENETDOWN',
+    'ENETUNREACH'
+];
+
+/**
+ * Array of idempotent HTTP methods, see https://www.rfc-editor.org/rfc/rfc9110#name-idempotent-methods
+ * Requests using these methods can be safely retried on ambiguous failures.
+ */
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * Array of error codes that may leave a poisoned keep-alive socket in the connection pool.
+ * With the freshConnection option the attempts following these errors use a new dispatcher.
+ * UND_ERR_SOCKET is the error of undici reusing a keep-alive socket closed by the server.
+ */
+export const FRESH_CONNECTION_ERROR_CODES = [
+    'ECONNRESET',
+    'EPIPE',
+    'UND_ERR_SOCKET'
 ];
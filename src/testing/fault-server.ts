@@ -0,0 +1,261 @@
+import * as http from 'http';
+import { AddressInfo, Socket } from 'net';
+import { once } from 'events';
+
+/**
+ * Response, or fault, scripted for a request:
+ * - status, headers and body of the response, default is a 200 with an empty body
+ * - delay in milliseconds before sending the response or injecting the fault
+ * - fault injected instead of the response:
+ *   - reset: the connection is reset before sending the response
+ *   - close: the connection is closed before sending the response, as a stale keep-alive connection (UND_ERR_SOCKET)
+ *   - reset-mid-body: the response headers and half of the body are sent, then the connection is reset
+ * - acceptRanges: serves a Range request (bytes=N-) with a 206 and the body from the byte N, unless the If-Range header
+ *   does not match the ETag or Last-Modified header of the response
+ */
+export type ScriptedResponse = {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: string | Buffer;
+    delay?: number;
+    fault?: 'reset' | 'close' | 'reset-mid-body';
+    acceptRanges?: boolean;
+};
+
+export type RecordedRequest = {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+    /**
+     * Number of the request received by the route, starting at 1
+     */
+    attempt: number;
+    /**
+     * Time in milliseconds since epoch the request has been received
+     */
+    receivedAt: number;
+};
+
+export type FaultServer = {
+    /**
+     * Base url of the server, i.e.: http://127.0.0.1:30000
+     */
+    readonly url: string;
+    /**
+     * Scripts the responses of the route, served in order, the last one being repeated once the script is over.
+     * Requests to routes not scripted get a 404.
+     * @param method request method, * to match any method
+     * @param path request path, including the query string if any
+     * @param responses responses served in order
+     */
+    route(method: string, path: string, responses: ScriptedResponse[]): void;
+    /**
+     * Stops listening, so that new connections are refused, and listens again once the duration expires.
+     * The open connections are closed, a client reusing a keep-alive connection at the same time may get an UND_ERR_SOCKET error instead.
+     * @param duration time in milliseconds the connections are refused
+     * @returns {Promise<void>} promise resolved when the server does not listen anymore
+     */
+    refuseConnections(duration: number): Promise<void>;
+    /**
+     * Gets the requests received in order, optionally only the ones to the given path.
+     */
+    getRequests(path?: string): RecordedRequest[];
+    /**
+     * Removes the scripted routes and the recorded requests.
+     */
+    reset(): void;
+    close(): Promise<void>;
+};
+
+type Route = {
+    responses: ScriptedResponse[];
+    requests: number;
+};
+
+/**
+ * Creates a local server serving scripted responses and faults per route, and recording every request received.
+ * @param port port the server listens to, default is a random free port
+ * @returns {Promise<FaultServer>} promise of the listening server
+ */
+export async function createFaultServer(
+    port: number = 0
+): Promise<FaultServer> {
+    const routes = new Map<string, Route>();
+    const requests: RecordedRequest[] = [];
+    const sockets = new Set<Socket>();
+    const server = http.createServer((req, res) => {
+        // a client aborting its upload makes reading the request fail
+        handleRequest(req, res).catch(() => res.destroy());
+    });
+    server.on('connection', socket => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+    });
+    let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+
+    await listen(port);
+    const { port: listeningPort } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${listeningPort}`,
+        route(method, path, responses) {
+            routes.set(getRouteKey(method, path), { responses, requests: 0 });
+        },
+        async refuseConnections(duration) {
+            await stopListening();
+            reopenTimer = setTimeout(() => {
+                reopenTimer = null;
+                // the port may have been taken meanwhile, the server then stays closed
+                listen(listeningPort).catch(() => undefined);
+            }, duration);
+        },
+        getRequests(path) {
+            return path === undefined
+                ? [...requests]
+                : requests.filter(request => request.path === path);
+        },
+        reset() {
+            routes.clear();
+            requests.length = 0;
+        },
+        async close() {
+            if (reopenTimer) {
+                clearTimeout(reopenTimer);
+                reopenTimer = null;
+            }
+            if (server.listening) {
+                await stopListening();
+            }
+        }
+    };
+
+    async function listen(listenPort: number): Promise<void> {
+        server.listen(listenPort, '127.0.0.1');
+        await once(server, 'listening');
+    }
+
+    function stopListening(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            server.close(error => (error ? reject(error) : resolve()));
+            for (const socket of sockets) {
+                socket.destroy();
+            }
+        });
+    }
+
+    async function handleRequest(
+        req: http.IncomingMessage,
+        res: http.ServerResponse
+    ): Promise<void> {
+        const receivedAt = Date.now();
+        let body = '';
+        for await (const chunk of req) {
+            body += chunk;
+        }
+        const method = req.method ?? 'GET';
+        const path = req.url ?? '/';
+        const route =
+            routes.get(getRouteKey(method, path)) ??
+            routes.get(getRouteKey('*', path));
+        if (!route) {
+            requests.push({
+                method,
+                path,
+                headers: req.headers,
+                body,
+                attempt: 1,
+                receivedAt
+            });
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+        route.requests++;
+        requests.push({
+            method,
+            path,
+            headers: req.headers,
+            body,
+            attempt: route.requests,
+            receivedAt
+        });
+        const { responses } = route;
+        const response =
+            responses[Math.min(route.requests, responses.length) - 1] ?? {};
+        if (response.delay) {
+            await new Promise(resolve => setTimeout(resolve, response.delay));
+        }
+        serve(getRangeResponse(response, req) ?? response, res);
+    }
+}
+
+function getRangeResponse(
+    response: ScriptedResponse,
+    req: http.IncomingMessage
+): ScriptedResponse | null {
+    const { acceptRanges, headers = {}, body = '' } = response;
+    const range = /^bytes=(\d+)-$/.exec(req.headers.range ?? '');
+    const ifRange = req.headers['if-range'];
+    if (
+        !acceptRanges ||
+        !range ||
+        (ifRange !== undefined &&
+            ifRange !== getHeader(headers, 'ETag') &&
+            ifRange !== getHeader(headers, 'Last-Modified'))
+    ) {
+        return null;
+    }
+    const buffer = Buffer.from(body);
+    const start = Number(range[1]);
+    return {
+        ...response,
+        status: 206,
+        headers: {
+            ...headers,
+            'Content-Range': `bytes ${start}-${buffer.length - 1}/${buffer.length}`
+        },
+        body: buffer.subarray(start)
+    };
+}
+
+function getHeader(
+    headers: Record<string, string>,
+    name: string
+): string | undefined {
+    return Object.entries(headers).find(
+        ([key]) => key.toLowerCase() === name.toLowerCase()
+    )?.[1];
+}
+
+function serve(
+    { status = 200, headers = {}, body = '', fault }: ScriptedResponse,
+    res: http.ServerResponse
+): void {
+    switch (fault) {
+        case 'reset':
+            res.socket?.resetAndDestroy();
+            return;
+        case 'close':
+            res.socket?.destroy();
+            return;
+        case 'reset-mid-body': {
+            const buffer = Buffer.from(body);
+            res.writeHead(status, {
+                ...headers,
+                'Content-Length': buffer.length.toString()
+            });
+            res.write(buffer.subarray(0, Math.floor(buffer.length / 2)), () =>
+                res.socket?.resetAndDestroy()
+            );
+            return;
+        }
+        default:
+            res.writeHead(status, headers);
+            res.end(body);
+    }
+}
+
+function getRouteKey(method: string, path: string): string {
+    return `${method.toUpperCase()} ${path}`;
+}
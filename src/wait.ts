@@ -0,0 +1,75 @@
+import { Clock, systemClock } from './clock';
+
+/**
+ * Waits for the given duration, resolving earlier if the signal aborts or at once if it is already aborted.
+ * @param durationInMilliseconds duration to wait
+ * @param signal optional signal to stop waiting
+ * @param {Clock} clock clock measuring the duration, default is the system clock
+ * @returns {Promise<void>} promise resolved when the wait is over
+ */
+export function wait(
+    durationInMilliseconds: number,
+    signal?: AbortSignal | null,
+    clock: Clock = systemClock
+): Promise<void> {
+    return new Promise<void>(resolve => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        signal?.addEventListener('abort', handleAbort);
+
+        const internalTimer = clock.setTimeout(
+            internalResolve,
+            durationInMilliseconds
+        );
+
+        function internalResolve() {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve();
+        }
+
+        function handleAbort() {
+            signal?.removeEventListener('abort', handleAbort);
+            clock.clearTimeout(internalTimer);
+            resolve();
+        }
+    });
+}
+
+/**
+ * Waits for the promise to be settled, rejecting earlier with the abort reason if the signal aborts.
+ * @param promise promise to wait for
+ * @param signal optional signal to stop waiting
+ * @returns {Promise<T>} promise settled as the given one
+ */
+export function waitFor<T>(
+    promise: Promise<T>,
+    signal?: AbortSignal | null
+): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        signal.addEventListener('abort', handleAbort);
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', handleAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', handleAbort);
+                reject(error);
+            }
+        );
+
+        function handleAbort() {
+            signal!.removeEventListener('abort', handleAbort);
+            reject(signal!.reason);
+        }
+    });
+}
@@ -0,0 +1,18 @@
+import {
+    ClientOptions,
+    createFetchWithRetries
+} from './create-fetch-with-retries';
+
+/**
+ * Wraps a fetch implementation adding retries to it, so it can be passed where a fetch function is expected (i.e.: SDKs).
+ * @param fetchImpl fetch implementation used to make each attempt
+ * @param {ClientOptions} defaults default options applied to each request, as in createFetchWithRetries
+ * @returns fetch function with retries
+ */
+export function wrapFetch(
+    fetchImpl: typeof fetch,
+    defaults: ClientOptions = {}
+): typeof fetch {
+    const client = createFetchWithRetries({ ...defaults, fetch: fetchImpl });
+    return (input, init) => client(input, init);
+}
@@ -0,0 +1,127 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import {
+    AuthOptions,
+    createFetchWithRetries,
+    fetchWithRetries
+} from '../src/index';
+
+describe('auth', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    function createAuth() {
+        let token = 'expired-token';
+        let refreshes = 0;
+        const auth: AuthOptions = {
+            getToken: () => token,
+            refreshToken: async () => {
+                refreshes++;
+                await new Promise(resolve => setTimeout(resolve, 10));
+                token = `token-${refreshes}`;
+                return token;
+            }
+        };
+        return { auth, getRefreshes: () => refreshes };
+    }
+
+    await test('should refresh the token and replay the request on 401 without counting it as a retry', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .matchHeader('authorization', 'Bearer expired-token')
+            .reply(401, { message: 'unauthorized' })
+            .get('/test')
+            .matchHeader('authorization', 'Bearer token-1')
+            .reply(200, { message: 'ok' });
+        const { auth, getRefreshes } = createAuth();
+        let retries = 0;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            auth,
+            retryOptions: {
+                onRetry: () => {
+                    retries++;
+                },
+                maxRetries: 0
+            }
+        });
+
+        equal(response.ok, true);
+        equal(retries, 0, 'retries');
+        equal(getRefreshes(), 1, 'refreshes');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should replay the request only once', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(401, { message: 'unauthorized' });
+        const { auth, getRefreshes } = createAuth();
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            auth
+        });
+
+        equal(response.status, 401);
+        equal(getRefreshes(), 1, 'refreshes');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should refresh the token once for concurrent requests', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(3)
+            .matchHeader('authorization', 'Bearer expired-token')
+            .reply(401, { message: 'unauthorized' })
+            .get('/test')
+            .times(3)
+            .matchHeader('authorization', 'Bearer token-1')
+            .reply(200, { message: 'ok' });
+        const { auth, getRefreshes } = createAuth();
+        const fetchClient = createFetchWithRetries({
+            baseURL: 'https://test.com',
+            auth
+        });
+
+        const responses = await Promise.all([
+            fetchClient('/test'),
+            fetchClient('/test'),
+            fetchClient('/test')
+        ]);
+
+        deepStrictEqual(
+            responses.map(r => r.status),
+            [200, 200, 200]
+        );
+        equal(getRefreshes(), 1, 'refreshes');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should use the custom scheme in the Authorization header', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .matchHeader('authorization', 'Token abc')
+            .reply(200, { message: 'ok' });
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            auth: {
+                getToken: () => 'abc',
+                refreshToken: () => 'def',
+                scheme: 'Token'
+            }
+        });
+
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+});
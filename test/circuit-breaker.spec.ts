@@ -0,0 +1,275 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import {
+    CircuitOpenError,
+    CircuitStateChange,
+    createCircuitBreaker,
+    fetchWithRetries
+} from '../src/index';
+
+class FetchError extends Error {
+    public readonly cause: { code: string };
+
+    constructor(code: string) {
+        super('fetch failed');
+        this.cause = { code };
+    }
+}
+
+describe('circuit-breaker', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    await test('should open the circuit after consecutive failures and fail fast', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(3)
+            .reply(503, { message: 'error' });
+        const changes: CircuitStateChange[] = [];
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 3
+        }).on('stateChange', change => changes.push(change));
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        for (let i = 0; i < 3; i++) {
+            const response = await fetchWithRetries('https://test.com/test', {
+                circuitBreaker,
+                retryOptions: { maxRetries: 0 }
+            });
+            equal(response.status, 503);
+        }
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                circuitBreaker,
+                retryOptions: { maxRetries: 0 }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof CircuitOpenError, true);
+        equal(error.origin, 'https://test.com');
+        equal(error.retryAfter > 0, true);
+        equal(circuitBreaker.getState('https://test.com'), 'open');
+        deepStrictEqual(changes, [
+            { origin: 'https://test.com', from: 'closed', to: 'open' }
+        ]);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should stop retrying when the circuit opens while retrying', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 2
+        });
+        let retries = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                circuitBreaker,
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    initialDelay: 0
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(retries, 2, 'retries');
+        equal(error instanceof CircuitOpenError, true);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should close the circuit when the trial request succeeds after the cooldown', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const changes: string[] = [];
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1,
+            cooldown: 20
+        }).on('stateChange', ({ from, to }) => changes.push(`${from}>${to}`));
+
+        await fetchWithRetries('https://test.com/test', {
+            circuitBreaker,
+            retryOptions: { maxRetries: 0 }
+        });
+        await new Promise(resolve => setTimeout(resolve, 30));
+        const response = await fetchWithRetries('https://test.com/test', {
+            circuitBreaker,
+            retryOptions: { maxRetries: 0 }
+        });
+
+        equal(response.ok, true);
+        equal(circuitBreaker.getState('https://test.com'), 'closed');
+        deepStrictEqual(changes, [
+            'closed>open',
+            'open>half-open',
+            'half-open>closed'
+        ]);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should open the circuit again when the trial request fails', () => {
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1,
+            cooldown: 0
+        });
+
+        circuitBreaker.acquire('https://test.com')('failure');
+        equal(circuitBreaker.getState('https://test.com'), 'open');
+        const release = circuitBreaker.acquire('https://test.com');
+        equal(circuitBreaker.getState('https://test.com'), 'half-open');
+        release('failure');
+
+        equal(circuitBreaker.getState('https://test.com'), 'open');
+    });
+
+    await test('should allow only halfOpenMaxRequests trial requests', () => {
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1,
+            cooldown: 0,
+            halfOpenMaxRequests: 1
+        });
+        let error: unknown = null;
+
+        circuitBreaker.acquire('https://test.com')('failure');
+        circuitBreaker.acquire('https://test.com');
+        try {
+            circuitBreaker.acquire('https://test.com');
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof CircuitOpenError, true);
+    });
+
+    await test('should open the circuit when the failure rate reaches the threshold', () => {
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 100,
+            failureRateThreshold: 0.5,
+            minimumRequests: 4
+        });
+
+        for (const outcome of ['success', 'failure', 'success'] as const) {
+            circuitBreaker.acquire('https://test.com')(outcome);
+        }
+        equal(circuitBreaker.getState('https://test.com'), 'closed');
+        circuitBreaker.acquire('https://test.com')('failure');
+
+        equal(circuitBreaker.getState('https://test.com'), 'open');
+        equal(circuitBreaker.getState('https://other.com'), 'closed');
+    });
+
+    await test('should not count client errors and ignored outcomes as failures', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(404, { message: 'not found' });
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1
+        });
+
+        for (let i = 0; i < 2; i++) {
+            const response = await fetchWithRetries('https://test.com/test', {
+                circuitBreaker
+            });
+            equal(response.status, 404);
+        }
+        circuitBreaker.acquire('https://test.com')('ignored');
+
+        equal(circuitBreaker.getState('https://test.com'), 'closed');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should release the trial request when an onError hook throws', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .replyWithError(new FetchError('ECONNRESET'))
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1,
+            cooldown: 20
+        });
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        await fetchWithRetries('https://test.com/test', {
+            circuitBreaker,
+            retryOptions: { maxRetries: 0 }
+        });
+        await new Promise(resolve => setTimeout(resolve, 30));
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                circuitBreaker,
+                retryOptions: { maxRetries: 0 },
+                hooks: {
+                    onError: [
+                        () => {
+                            throw new Error('hook failed');
+                        }
+                    ]
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+        equal(error.message, 'hook failed');
+        equal(circuitBreaker.getState('https://test.com'), 'open');
+        await new Promise(resolve => setTimeout(resolve, 30));
+        const response = await fetchWithRetries('https://test.com/test', {
+            circuitBreaker,
+            retryOptions: { maxRetries: 0 }
+        });
+
+        equal(response.ok, true);
+        equal(circuitBreaker.getState('https://test.com'), 'closed');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should not take the outcome of a request acquired before the circuit opened as the trial result', () => {
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1,
+            cooldown: 0,
+            halfOpenMaxRequests: 1
+        });
+        let error: unknown = null;
+
+        const releaseClosed = circuitBreaker.acquire('https://test.com');
+        circuitBreaker.acquire('https://test.com')('failure');
+        equal(circuitBreaker.getState('https://test.com'), 'open');
+        const releaseTrial = circuitBreaker.acquire('https://test.com');
+        equal(circuitBreaker.getState('https://test.com'), 'half-open');
+        releaseClosed('success');
+        equal(circuitBreaker.getState('https://test.com'), 'half-open');
+        try {
+            circuitBreaker.acquire('https://test.com');
+        } catch (e) {
+            error = e;
+        }
+        equal(error instanceof CircuitOpenError, true, 'extra trial');
+        releaseTrial('success');
+
+        equal(circuitBreaker.getState('https://test.com'), 'closed');
+    });
+});
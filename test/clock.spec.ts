@@ -0,0 +1,144 @@
+import { describe, test } from 'node:test';
+import { equal, deepStrictEqual, throws } from 'node:assert';
+import {
+    CircuitOpenError,
+    createCircuitBreaker,
+    createRateLimiter,
+    createVirtualClock,
+    fetchWithRetries
+} from '../src/index';
+
+describe('clock', async () => {
+    await test('should wait the exact backoff delays measured by the virtual clock', async () => {
+        const clock = createVirtualClock();
+        const statuses = [503, 503, 503, 200];
+        const delays: number[] = [];
+
+        const promise = fetchWithRetries.withMeta('https://test.com/test', {
+            clock,
+            fetch: async () => new Response(null, { status: statuses.shift() }),
+            retryOptions: {
+                onRetry: params => {
+                    delays.push(params.delay);
+                }
+            }
+        });
+        await clock.advance(13_999);
+        equal(statuses.length, 1, 'pending statuses');
+        await clock.advance(1);
+        const { response, history, elapsed } = await promise;
+
+        equal(response.status, 200);
+        deepStrictEqual(delays, [2000, 4000, 8000]);
+        deepStrictEqual(
+            history.map(record => record.startedAt),
+            [0, 2000, 6000, 14_000]
+        );
+        equal(elapsed, 14_000, 'elapsed');
+        equal(clock.getPendingTimers(), 0, 'pending timers');
+    });
+
+    await test('should compute the rate limit delay from the virtual clock time', async () => {
+        const clock = createVirtualClock(1_700_000_000_000);
+        const responses = [
+            new Response(null, {
+                status: 429,
+                headers: { 'X-RateLimit-Reset': '1700000030' }
+            }),
+            new Response(null, { status: 200 })
+        ];
+        const delays: number[] = [];
+
+        const promise = fetchWithRetries('https://test.com/test', {
+            clock,
+            fetch: async () => responses.shift()!,
+            retryOptions: {
+                onRetry: params => {
+                    delays.push(params.delay);
+                },
+                rateLimit: { maxDelay: Infinity }
+            }
+        });
+        await clock.advance(30_000);
+        const response = await promise;
+
+        equal(response.status, 200);
+        deepStrictEqual(delays, [30_000]);
+    });
+
+    await test('should time out an attempt with the virtual clock', async () => {
+        const clock = createVirtualClock();
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        const promise = fetchWithRetries('https://test.com/test', {
+            clock,
+            fetch: (input, init) =>
+                new Promise((resolve, reject) =>
+                    init?.signal?.addEventListener('abort', () =>
+                        reject(init.signal!.reason)
+                    )
+                ),
+            attemptTimeout: 5000,
+            retryOptions: { maxRetries: 1, initialDelay: 100 }
+        }).catch(e => {
+            error = e;
+        });
+        await clock.advance(10_200);
+        await promise;
+
+        equal(error.name, 'TimeoutError');
+        equal(clock.getPendingTimers(), 0, 'pending timers');
+    });
+
+    await test('should measure the circuit breaker cooldown and the rate limiter interval with the virtual clock', async () => {
+        const clock = createVirtualClock();
+        const circuitBreaker = createCircuitBreaker({
+            consecutiveFailures: 1,
+            cooldown: 1000,
+            clock
+        });
+        const rateLimiter = createRateLimiter({
+            requestsPerInterval: 1,
+            interval: 1000,
+            clock
+        });
+
+        circuitBreaker.acquire('https://test.com')('failure');
+        throws(
+            () => circuitBreaker.acquire('https://test.com'),
+            CircuitOpenError
+        );
+        await rateLimiter.acquire('https://test.com');
+        let acquired = false;
+        const acquire = rateLimiter
+            .acquire('https://test.com')
+            .then(() => (acquired = true));
+        await clock.advance(999);
+        equal(acquired, false, 'acquired before the interval');
+        await clock.advance(1);
+        await acquire;
+
+        equal(acquired, true, 'acquired after the interval');
+        circuitBreaker.acquire('https://test.com');
+        equal(circuitBreaker.getState('https://test.com'), 'half-open');
+    });
+
+    await test('should clear the timeout timers once the request settles', async () => {
+        const clock = createVirtualClock();
+        const statuses = [503, 200];
+
+        const promise = fetchWithRetries('https://test.com/test', {
+            clock,
+            fetch: async () => new Response('ok', { status: statuses.shift() }),
+            attemptTimeout: 5000,
+            totalTimeout: 60_000
+        });
+        await clock.advance(2000);
+        const response = await promise;
+
+        equal(response.status, 200);
+        equal(clock.getPendingTimers(), 0, 'pending timers');
+        await clock.advance(60_000);
+        equal(await response.text(), 'ok');
+    });
+});
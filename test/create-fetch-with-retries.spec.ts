@@ -0,0 +1,176 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import { createFetchWithRetries, fetchWithRetries } from '../src/index';
+
+describe('create-fetch-with-retries', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    await test('should resolve the url against the baseURL and send the default headers', async () => {
+        const nockScope = nock('https://test.com', {
+            reqheaders: {
+                authorization: 'Bearer token',
+                'x-request-id': 'abc'
+            }
+        })
+            .get('/api/test')
+            .reply(200, { message: 'ok' });
+        const fetchClient = createFetchWithRetries({
+            baseURL: 'https://test.com/api/',
+            headers: { Authorization: 'Bearer token' }
+        });
+
+        const response = await fetchClient('test', {
+            method: 'GET',
+            headers: { 'X-Request-Id': 'abc' }
+        });
+
+        equal(response.ok, true);
+        const body = await response.json();
+        deepStrictEqual(body, { message: 'ok' });
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should override the default headers with the request headers', async () => {
+        const nockScope = nock('https://test.com', {
+            reqheaders: { authorization: 'Bearer other-token' }
+        })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const fetchClient = createFetchWithRetries({
+            headers: { Authorization: 'Bearer token' }
+        });
+
+        const response = await fetchClient('https://test.com/test', {
+            headers: { Authorization: 'Bearer other-token' }
+        });
+
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should deep merge the default retry options with the request retry options', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(500, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retries: [string, number][] = [];
+        const fetchClient = createFetchWithRetries({
+            baseURL: 'https://test.com',
+            retryOptions: {
+                onRetry: params => {
+                    retries.push([params.policy, params.delay]);
+                },
+                initialDelay: 1,
+                factor: 1,
+                policies: {
+                    '503': { maxRetries: 2, initialDelay: 2 }
+                }
+            }
+        });
+
+        const response = await fetchClient('/test', {
+            retryOptions: {
+                initialDelay: 3,
+                policies: {
+                    '500': { maxRetries: 1 }
+                }
+            }
+        });
+
+        deepStrictEqual(retries, [
+            ['503', 2],
+            ['503', 2],
+            ['500', 3]
+        ]);
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should resolve with the attempts metadata using withMeta', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const fetchClient = createFetchWithRetries({
+            baseURL: 'https://test.com',
+            retryOptions: { initialDelay: 0 }
+        });
+
+        const { response, attempts } = await fetchClient.withMeta('/test');
+
+        equal(response.ok, true);
+        equal(attempts, 2, 'attempts');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should keep the default export working along with the client', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const fetchClient = createFetchWithRetries({
+            baseURL: 'https://other.com'
+        });
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET'
+        });
+
+        equal(response.ok, true);
+        equal(fetchClient.defaults.baseURL, 'https://other.com');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should merge the Request headers between the default headers and the request headers', async () => {
+        const nockScope = nock('https://test.com', {
+            reqheaders: {
+                authorization: 'Bearer token',
+                'x-request-id': 'abc',
+                'x-tenant': 'other-tenant'
+            }
+        })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const fetchClient = createFetchWithRetries({
+            headers: { Authorization: 'Bearer token', 'X-Tenant': 'tenant' }
+        });
+
+        const response = await fetchClient(
+            new Request('https://test.com/test', {
+                headers: { 'X-Request-Id': 'abc', 'X-Tenant': 'request-tenant' }
+            }),
+            { headers: { 'X-Tenant': 'other-tenant' } }
+        );
+
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should use the default fetch implementation of the client', async () => {
+        const requests: string[] = [];
+        const fetchClient = createFetchWithRetries({
+            baseURL: 'https://test.com',
+            fetch: async input => {
+                requests.push(input.toString());
+                return new Response(null, { status: 200 });
+            }
+        });
+
+        const response = await fetchClient('/test');
+
+        equal(response.ok, true);
+        deepStrictEqual(requests, ['https://test.com/test']);
+    });
+});
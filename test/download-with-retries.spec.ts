@@ -0,0 +1,168 @@
+import { describe, after, beforeEach, test } from 'node:test';
+import { gzipSync } from 'node:zlib';
+import { equal, deepStrictEqual, rejects } from 'node:assert';
+import {
+    DownloadProgress,
+    DownloadResumeError,
+    downloadWithRetries
+} from '../src/index';
+import { createFaultServer } from '../src/testing';
+
+describe('download-with-retries', async () => {
+    const server = await createFaultServer();
+    const content = Buffer.from(
+        Array.from({ length: 1000 }, (_, i) => `line ${i}\n`).join('')
+    );
+
+    await after(async () => {
+        await server.close();
+    });
+
+    await beforeEach(() => {
+        server.reset();
+    });
+
+    await test('should resume the download with a Range request after the connection drops', async () => {
+        const headers = { ETag: '"v1"' };
+        server.route('GET', '/file', [
+            { fault: 'reset-mid-body', body: content, headers },
+            { body: content, headers, acceptRanges: true }
+        ]);
+        const progress: DownloadProgress[] = [];
+
+        const response = await downloadWithRetries(`${server.url}/file`, {
+            onProgress: params => {
+                progress.push(params);
+            }
+        });
+        const body = Buffer.from(await response.arrayBuffer());
+
+        equal(response.status, 200);
+        equal(body.equals(content), true, 'body');
+        const [, resumeRequest] = server.getRequests('/file');
+        const firstResponseProgress = progress.filter(p => p.resumes === 0);
+        const receivedBeforeResume =
+            firstResponseProgress[firstResponseProgress.length - 1]?.loaded ??
+            0;
+        equal(resumeRequest.headers.range, `bytes=${receivedBeforeResume}-`);
+        equal(resumeRequest.headers['if-range'], '"v1"');
+        // fetch adds its own Accept-Encoding: identity to a Range request
+        deepStrictEqual(
+            server
+                .getRequests('/file')
+                .map(request => [
+                    ...new Set(request.headers['accept-encoding']?.split(', '))
+                ]),
+            [['identity'], ['identity']]
+        );
+        deepStrictEqual(progress[progress.length - 1], {
+            loaded: content.length,
+            total: content.length,
+            resumes: 1
+        });
+    });
+
+    await test('should restart the download skipping the bytes received when the server ignores the Range request', async () => {
+        const headers = { 'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT' };
+        server.route('GET', '/file', [
+            { fault: 'reset-mid-body', body: content, headers },
+            { body: content, headers }
+        ]);
+
+        const response = await downloadWithRetries(`${server.url}/file`);
+        const body = Buffer.from(await response.arrayBuffer());
+
+        equal(body.equals(content), true, 'body');
+        equal(
+            server.getRequests('/file')[1].headers['if-range'],
+            'Wed, 21 Oct 2015 07:28:00 GMT'
+        );
+    });
+
+    await test('should fail the body with a DownloadResumeError when the resource changed', async () => {
+        server.route('GET', '/file', [
+            {
+                fault: 'reset-mid-body',
+                body: content,
+                headers: { ETag: '"v1"' }
+            },
+            {
+                body: 'new content',
+                headers: { ETag: '"v2"' },
+                acceptRanges: true
+            }
+        ]);
+
+        const response = await downloadWithRetries(`${server.url}/file`);
+
+        await rejects(response.arrayBuffer(), DownloadResumeError);
+    });
+
+    await test('should fail the body after maxResumes', async () => {
+        server.route('GET', '/file', [
+            {
+                fault: 'reset-mid-body',
+                body: content,
+                headers: { ETag: '"v1"' },
+                acceptRanges: true
+            }
+        ]);
+
+        const response = await downloadWithRetries(`${server.url}/file`, {
+            maxResumes: 2
+        });
+
+        await rejects(response.arrayBuffer(), { name: 'TypeError' });
+        equal(server.getRequests('/file').length, 3, 'requests');
+    });
+
+    await test('should not resume the download of a response with a Content-Encoding', async () => {
+        server.route('GET', '/file', [
+            {
+                fault: 'reset-mid-body',
+                body: gzipSync(content),
+                headers: { ETag: '"v1"', 'Content-Encoding': 'gzip' },
+                acceptRanges: true
+            }
+        ]);
+
+        const response = await downloadWithRetries(`${server.url}/file`);
+
+        await rejects(response.arrayBuffer(), { name: 'TypeError' });
+        equal(server.getRequests('/file').length, 1, 'requests');
+    });
+
+    await test('should fail the body with a DownloadResumeError when the response has no validator', async () => {
+        server.route('GET', '/file', [
+            { fault: 'reset-mid-body', body: content },
+            { body: content, acceptRanges: true }
+        ]);
+
+        const response = await downloadWithRetries(`${server.url}/file`);
+
+        await rejects(response.arrayBuffer(), DownloadResumeError);
+        equal(server.getRequests('/file').length, 1, 'requests');
+    });
+
+    await test('should send Accept-Encoding: identity to a custom fetch when resuming', async () => {
+        const headers = { ETag: '"v1"' };
+        server.route('GET', '/file', [
+            { fault: 'reset-mid-body', body: content, headers },
+            { body: content, headers, acceptRanges: true }
+        ]);
+        const acceptEncodings: (string | null)[] = [];
+
+        const response = await downloadWithRetries(`${server.url}/file`, {
+            fetch: (input, init) => {
+                acceptEncodings.push(
+                    new Headers(init?.headers).get('Accept-Encoding')
+                );
+                return fetch(input, init);
+            }
+        });
+        const body = Buffer.from(await response.arrayBuffer());
+
+        equal(body.equals(content), true, 'body');
+        deepStrictEqual(acceptEncodings, ['identity', 'identity']);
+    });
+});
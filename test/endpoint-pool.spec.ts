@@ -0,0 +1,145 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import {
+    createEndpointPool,
+    createVirtualClock,
+    fetchWithRetries
+} from '../src/index';
+
+describe('endpoint-pool', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    await test('should move the retry of a failed attempt to the next endpoint', async () => {
+        const euScope = nock('https://eu.test.com')
+            .get('/test')
+            .reply(503, { message: 'error' });
+        const usScope = nock('https://us.test.com')
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const failover = createEndpointPool({
+            endpoints: ['https://eu.test.com', 'https://us.test.com'],
+            strategy: 'priority'
+        });
+        const retryEndpoints: (string | undefined)[] = [];
+
+        const { response, history } = await fetchWithRetries.withMeta(
+            'https://test.com/test',
+            {
+                failover,
+                retryOptions: {
+                    initialDelay: 0,
+                    onRetry: ({ endpoint }) => {
+                        retryEndpoints.push(endpoint);
+                    }
+                }
+            }
+        );
+
+        equal(response.ok, true);
+        deepStrictEqual(retryEndpoints, ['https://eu.test.com']);
+        deepStrictEqual(
+            history.map(record => record.endpoint),
+            ['https://eu.test.com', 'https://us.test.com']
+        );
+        equal(euScope.isDone(), true);
+        equal(usScope.isDone(), true);
+    });
+
+    await test('should resolve a relative url against the endpoint', async () => {
+        const nockScope = nock('https://eu.test.com')
+            .get('/api/test')
+            .reply(200, { message: 'ok' });
+        const failover = createEndpointPool({
+            endpoints: ['https://eu.test.com']
+        });
+
+        const response = await fetchWithRetries('/api/test', { failover });
+
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should skip a failed endpoint until its cooldown expires', async () => {
+        const clock = createVirtualClock();
+        const pool = createEndpointPool({
+            endpoints: ['https://eu.test.com', 'https://us.test.com'],
+            strategy: 'priority',
+            cooldown: 1000,
+            clock
+        });
+
+        pool.report('https://eu.test.com', 'failure');
+        const duringCooldown = pool.select();
+        await clock.advance(1000);
+        const afterCooldown = pool.select();
+
+        equal(duringCooldown, 'https://us.test.com');
+        equal(afterCooldown, 'https://eu.test.com');
+    });
+
+    await test('should select the endpoint recovering first when all of them are failing', async () => {
+        const clock = createVirtualClock();
+        const pool = createEndpointPool({
+            endpoints: ['https://eu.test.com', 'https://us.test.com'],
+            strategy: 'priority',
+            clock
+        });
+
+        pool.report('https://us.test.com', 'failure');
+        await clock.advance(10);
+        pool.report('https://eu.test.com', 'failure');
+
+        equal(pool.select(), 'https://us.test.com');
+        equal(
+            pool.select(new Set(['https://us.test.com'])),
+            'https://eu.test.com'
+        );
+    });
+
+    await test('should use the endpoints in turn with the round-robin strategy', async () => {
+        const pool = createEndpointPool({
+            endpoints: [
+                'https://eu.test.com',
+                'https://us.test.com',
+                'https://ap.test.com'
+            ]
+        });
+
+        pool.report('https://us.test.com', 'failure');
+        const selected = [pool.select(), pool.select(), pool.select()];
+
+        deepStrictEqual(selected, [
+            'https://eu.test.com',
+            'https://ap.test.com',
+            'https://eu.test.com'
+        ]);
+    });
+
+    await test('should weight the endpoints by their health with the health-weighted strategy', async () => {
+        let randomValue = 0;
+        const pool = createEndpointPool({
+            endpoints: ['https://eu.test.com', 'https://us.test.com'],
+            strategy: 'health-weighted',
+            cooldown: 0,
+            random: () => randomValue
+        });
+
+        pool.report('https://eu.test.com', 'failure');
+        randomValue = 0.4;
+        const lowRandom = pool.select();
+        randomValue = 0.5;
+        const highRandom = pool.select();
+
+        equal(pool.getHealth('https://eu.test.com'), 0.8);
+        equal(lowRandom, 'https://eu.test.com');
+        equal(highRandom, 'https://us.test.com');
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, after, beforeEach, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import {
+    fetchJsonWithRetries,
+    fetchTextWithRetries,
+    ResponseStatusError,
+    ResponseValidationError
+} from '../src/index';
+import { createFaultServer } from '../src/testing';
+
+describe('fetch-body-with-retries', async () => {
+    const server = await createFaultServer();
+
+    await after(async () => {
+        await server.close();
+    });
+
+    await beforeEach(() => {
+        server.reset();
+    });
+
+    await test('should retry a connection reset while reading the JSON body', async () => {
+        const body = JSON.stringify({ message: 'ok' });
+        server.route('GET', '/test', [
+            { fault: 'reset-mid-body', body },
+            { status: 200, body }
+        ]);
+        const errorCodes: string[] = [];
+
+        const json = await fetchJsonWithRetries(`${server.url}/test`, {
+            retryOptions: {
+                initialDelay: 0,
+                onRetry: ({ error }) => {
+                    errorCodes.push(error.cause.code);
+                }
+            }
+        });
+
+        deepStrictEqual(json, { message: 'ok' });
+        deepStrictEqual(errorCodes, ['UND_ERR_SOCKET']);
+        equal(server.getRequests().length, 2, 'requests');
+    });
+
+    await test('should retry a connection reset while reading the text body', async () => {
+        server.route('GET', '/test', [
+            { fault: 'reset-mid-body', body: 'hello world' },
+            { status: 200, body: 'hello world' }
+        ]);
+
+        const text = await fetchTextWithRetries(`${server.url}/test`, {
+            retryOptions: { initialDelay: 0 }
+        });
+
+        equal(text, 'hello world');
+        equal(server.getRequests().length, 2, 'requests');
+    });
+
+    await test('should retry a response whose body does not pass the validate function', async () => {
+        server.route('POST', '/graphql', [
+            {
+                status: 200,
+                body: JSON.stringify({ errors: [{ message: 'timeout' }] })
+            },
+            { status: 200, body: JSON.stringify({ data: { id: 1 } }) }
+        ]);
+        const retryErrors: unknown[] = [];
+
+        const json = await fetchJsonWithRetries<{
+            data?: unknown;
+            errors?: unknown[];
+        }>(`${server.url}/graphql`, {
+            method: 'POST',
+            body: JSON.stringify({ query: '{ id }' }),
+            idempotencyKey: true,
+            validate: body => !body.errors,
+            retryOptions: {
+                initialDelay: 0,
+                onRetry: ({ error }) => {
+                    retryErrors.push(error);
+                }
+            }
+        });
+
+        deepStrictEqual(json, { data: { id: 1 } });
+        equal(retryErrors.length, 1, 'retries');
+        equal(retryErrors[0] instanceof ResponseValidationError, true);
+    });
+
+    await test('should throw a ResponseStatusError when the last response has not an ok status', async () => {
+        server.route('GET', '/test', [{ status: 404, body: 'not found' }]);
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchJsonWithRetries(`${server.url}/test`);
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof ResponseStatusError, true);
+        equal(error.response.status, 404);
+        equal(await error.response.text(), 'not found');
+    });
+});
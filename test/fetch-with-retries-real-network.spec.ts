@@ -1,6 +1,13 @@
 import { describe, after, test } from 'node:test';
 import { equal, deepStrictEqual } from 'node:assert';
-import { fetchWithRetries } from '../src/index';
+import { Readable } from 'stream';
+import {
+    createRateLimiter,
+    fetchWithRetries,
+    NonReplayableBodyError,
+    OnHedge,
+    Options
+} from '../src/index';
 import { createTestServer } from './util/test-server';
 
 describe('fetch-with-retries-real-network', async () => {
@@ -130,4 +137,441 @@ describe('fetch-with-retries-real-network', async () => {
         equal(attempts, 0, 'attempts');
         equal(error instanceof Error, true, 'error instance of error');
     });
+
+    await test('should retry an attempt that exceeds the attemptTimeout', async () => {
+        let requests = 0;
+        let retries = 0;
+
+        server.setRequestListener((req, res) => {
+            requests++;
+            setTimeout(
+                () => {
+                    res.writeHead(200);
+                    res.end(JSON.stringify({ message: 'ok' }));
+                },
+                requests === 1 ? 200 : 0
+            );
+        });
+
+        const response = await fetchWithRetries('http://localhost:30000', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: () => {
+                    retries++;
+                },
+                initialDelay: 0
+            },
+            attemptTimeout: 50
+        });
+
+        equal(retries, 1, 'retries');
+        equal(response.ok, true);
+        const body = await response.json();
+        deepStrictEqual(body, { message: 'ok' });
+    });
+
+    await test('should stop retrying attempt timeouts when the totalTimeout expires', async () => {
+        let retries = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        server.setRequestListener((req, res) => {
+            setTimeout(() => {
+                res.writeHead(200);
+                res.end(JSON.stringify({ message: 'ok' }));
+            }, 200);
+        });
+
+        try {
+            await fetchWithRetries('http://localhost:30000', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    maxRetries: 10,
+                    initialDelay: 0
+                },
+                attemptTimeout: 50,
+                totalTimeout: 120
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(retries > 0 && retries < 10, true, 'retries');
+        equal(error instanceof Error, true, 'error instance of error');
+        equal(error.name, 'TimeoutError');
+    });
+
+    await test('should not retry when the totalTimeout expires during the first attempt', async () => {
+        let retries = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        server.setRequestListener((req, res) => {
+            setTimeout(() => {
+                res.writeHead(200);
+                res.end(JSON.stringify({ message: 'ok' }));
+            }, 100);
+        });
+
+        try {
+            await fetchWithRetries('http://localhost:30000', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    initialDelay: 0
+                },
+                totalTimeout: 50
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(retries, 0, 'retries');
+        equal(error instanceof Error, true, 'error instance of error');
+        equal(error.name, 'TimeoutError');
+    });
+
+    const oneShotBodies: { type: string; createBody: () => Options['body'] }[] =
+        [
+            {
+                type: 'ReadableStream',
+                createBody: () =>
+                    new ReadableStream({
+                        start(controller) {
+                            controller.enqueue(Buffer.from('hello '));
+                            controller.enqueue(Buffer.from('world'));
+                            controller.close();
+                        }
+                    })
+            },
+            {
+                type: 'Readable',
+                createBody: () =>
+                    Readable.from([Buffer.from('hello '), Buffer.from('world')])
+            }
+        ];
+    for (const { type, createBody } of oneShotBodies) {
+        await test(`should replay a ${type} body on every attempt`, async () => {
+            const receivedBodies: string[] = [];
+            let retries = 0;
+
+            server.setRequestListener(async (req, res) => {
+                let body = '';
+                for await (const chunk of req) {
+                    body += chunk;
+                }
+                receivedBodies.push(body);
+                res.writeHead(receivedBodies.length === 1 ? 503 : 200);
+                res.end(JSON.stringify({ message: 'ok' }));
+            });
+
+            const response = await fetchWithRetries('http://localhost:30000', {
+                method: 'PUT',
+                body: createBody(),
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    initialDelay: 0
+                }
+            });
+
+            equal(retries, 1, 'retries');
+            equal(response.ok, true);
+            deepStrictEqual(receivedBodies, ['hello world', 'hello world']);
+        });
+    }
+
+    await test('should call the body function on every attempt', async () => {
+        const receivedBodies: string[] = [];
+        let bodyCalls = 0;
+
+        server.setRequestListener(async (req, res) => {
+            let body = '';
+            for await (const chunk of req) {
+                body += chunk;
+            }
+            receivedBodies.push(body);
+            res.writeHead(receivedBodies.length === 1 ? 503 : 200);
+            res.end(JSON.stringify({ message: 'ok' }));
+        });
+
+        const response = await fetchWithRetries('http://localhost:30000', {
+            method: 'PUT',
+            body: () => {
+                bodyCalls++;
+                return Readable.from([Buffer.from(`body ${bodyCalls}`)]);
+            },
+            retryOptions: {
+                initialDelay: 0
+            }
+        });
+
+        equal(bodyCalls, 2, 'body calls');
+        equal(response.ok, true);
+        deepStrictEqual(receivedBodies, ['body 1', 'body 2']);
+    });
+
+    await test('should throw a NonReplayableBodyError without sending the request if the body exceeds maxBodyBufferSize', async () => {
+        let requests = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        server.setRequestListener((req, res) => {
+            requests++;
+            res.writeHead(200);
+            res.end(JSON.stringify({ message: 'ok' }));
+        });
+
+        try {
+            await fetchWithRetries('http://localhost:30000', {
+                method: 'PUT',
+                body: Readable.from([Buffer.alloc(10), Buffer.alloc(10)]),
+                maxBodyBufferSize: 15
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(requests, 0, 'requests');
+        equal(error instanceof NonReplayableBodyError, true);
+        equal(error.name, 'NonReplayableBodyError');
+    });
+
+    await test('should fire a hedged request when the first one does not answer within hedgeDelay', async () => {
+        let requests = 0;
+        let closedRequests = 0;
+        const hedgeCalls: OnHedge[] = [];
+
+        server.setRequestListener((req, res) => {
+            const request = ++requests;
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    closedRequests++;
+                }
+            });
+            setTimeout(
+                () => {
+                    res.writeHead(200);
+                    res.end(JSON.stringify({ request }));
+                },
+                request === 1 ? 500 : 0
+            );
+        });
+
+        const { response, history } = await fetchWithRetries.withMeta(
+            'http://localhost:30000',
+            {
+                method: 'GET',
+                hedging: { hedgeDelay: 50, maxHedges: 2 },
+                retryOptions: {
+                    onHedge: params => {
+                        hedgeCalls.push(params);
+                    }
+                }
+            }
+        );
+
+        deepStrictEqual(await response.json(), { request: 2 });
+        deepStrictEqual(hedgeCalls, [{ attempt: 1, hedges: 2, winner: 1 }]);
+        equal(history.length, 1, 'history');
+        equal(history[0].hedge, 1, 'hedge');
+        await new Promise(resolve => setTimeout(resolve, 50));
+        equal(requests, 2, 'requests');
+        equal(closedRequests, 1, 'closed requests');
+    });
+
+    await test('should not hedge requests with a non idempotent method', async () => {
+        let requests = 0;
+        let hedges = 0;
+
+        server.setRequestListener((req, res) => {
+            requests++;
+            setTimeout(() => {
+                res.writeHead(200);
+                res.end(JSON.stringify({ message: 'ok' }));
+            }, 100);
+        });
+
+        const response = await fetchWithRetries('http://localhost:30000', {
+            method: 'POST',
+            body: 'hello',
+            hedging: { hedgeDelay: 10, maxHedges: 2 },
+            retryOptions: {
+                onHedge: () => {
+                    hedges++;
+                }
+            }
+        });
+
+        equal(response.ok, true);
+        equal(requests, 1, 'requests');
+        equal(hedges, 0, 'hedges');
+    });
+
+    await test('should retry when all the hedged requests fail', async () => {
+        let requests = 0;
+        let retries = 0;
+        const hedgeCalls: OnHedge[] = [];
+
+        server.setRequestListener((req, res) => {
+            const request = ++requests;
+            setTimeout(
+                () => {
+                    res.writeHead(request <= 2 ? 503 : 200);
+                    res.end(JSON.stringify({ request }));
+                },
+                request === 1 ? 80 : 0
+            );
+        });
+
+        const response = await fetchWithRetries('http://localhost:30000', {
+            method: 'GET',
+            hedging: { hedgeDelay: 20, maxHedges: 1 },
+            retryOptions: {
+                initialDelay: 0,
+                onRetry: () => {
+                    retries++;
+                },
+                onHedge: params => {
+                    hedgeCalls.push(params);
+                }
+            }
+        });
+
+        equal(response.ok, true);
+        equal(retries, 1, 'retries');
+        deepStrictEqual(hedgeCalls, [
+            { attempt: 1, hedges: 2, winner: 0 },
+            { attempt: 2, hedges: 1, winner: 0 }
+        ]);
+    });
+
+    await test('should send the body set by a beforeRequest hook with every hedged request', async () => {
+        const receivedBodies: string[] = [];
+
+        server.setRequestListener(async (req, res) => {
+            let body = '';
+            for await (const chunk of req) {
+                body += chunk;
+            }
+            receivedBodies.push(body);
+            setTimeout(
+                () => {
+                    res.writeHead(200);
+                    res.end(JSON.stringify({ message: 'ok' }));
+                },
+                receivedBodies.length === 1 ? 300 : 0
+            );
+        });
+
+        const response = await fetchWithRetries('http://localhost:30000', {
+            method: 'PUT',
+            body: 'original',
+            hedging: { hedgeDelay: 50, maxHedges: 1 },
+            hooks: {
+                beforeRequest: [
+                    request => {
+                        request.init.body = 'from-hook';
+                    }
+                ]
+            }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(receivedBodies, ['from-hook', 'from-hook']);
+    });
+
+    await test('should not fire a hedged request before the rate limiter allows it', async () => {
+        let requests = 0;
+        const hedgeCalls: OnHedge[] = [];
+
+        server.setRequestListener((req, res) => {
+            const request = ++requests;
+            setTimeout(() => {
+                res.writeHead(200);
+                res.end(JSON.stringify({ request }));
+            }, 200);
+        });
+
+        const response = await fetchWithRetries('http://localhost:30000', {
+            method: 'GET',
+            rateLimiter: createRateLimiter({
+                requestsPerInterval: 1,
+                interval: 1000
+            }),
+            hedging: { hedgeDelay: 50, maxHedges: 1 },
+            retryOptions: {
+                onHedge: params => {
+                    hedgeCalls.push(params);
+                }
+            }
+        });
+
+        deepStrictEqual(await response.json(), { request: 1 });
+        deepStrictEqual(hedgeCalls, [{ attempt: 1, hedges: 2, winner: 0 }]);
+        equal(requests, 1, 'requests');
+    });
+
+    await test('should replay the buffered Request body with its content-length on every attempt', async () => {
+        const receivedBodies: string[] = [];
+        const receivedHeaders: (string | undefined)[][] = [];
+
+        server.setRequestListener(async (req, res) => {
+            let body = '';
+            for await (const chunk of req) {
+                body += chunk;
+            }
+            receivedBodies.push(body);
+            receivedHeaders.push([
+                req.headers['content-length'],
+                req.headers['transfer-encoding']
+            ]);
+            res.writeHead(receivedBodies.length === 1 ? 503 : 200);
+            res.end(JSON.stringify({ message: 'ok' }));
+        });
+
+        const request = new Request('http://localhost:30000', {
+            method: 'PUT',
+            body: 'hello world'
+        });
+        const response = await fetchWithRetries(request, {
+            retryOptions: { initialDelay: 0 }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(receivedBodies, ['hello world', 'hello world']);
+        deepStrictEqual(receivedHeaders, [
+            ['11', undefined],
+            ['11', undefined]
+        ]);
+    });
+
+    await test('should throw NonReplayableBodyError when the Request body exceeds maxBodyBufferSize', async () => {
+        let requests = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        server.setRequestListener((req, res) => {
+            requests++;
+            res.writeHead(200);
+            res.end();
+        });
+
+        try {
+            await fetchWithRetries(
+                new Request('http://localhost:30000', {
+                    method: 'PUT',
+                    body: 'hello world'
+                }),
+                { maxBodyBufferSize: 5 }
+            );
+        } catch (e) {
+            error = e;
+        }
+
+        equal(requests, 0, 'requests');
+        equal(error instanceof NonReplayableBodyError, true);
+    });
 });
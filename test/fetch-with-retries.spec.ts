@@ -1,7 +1,18 @@
 import * as nock from 'nock';
 import { describe, beforeEach, afterEach, test } from 'node:test';
-import { equal, deepStrictEqual } from 'node:assert';
-import { fetchWithRetries } from '../src/index';
+import { equal, deepStrictEqual, rejects } from 'node:assert';
+import {
+    AbortedDuringRetryError,
+    AttemptRecord,
+    fetchWithRetries,
+    Idempotency,
+    isResponseThatHaveToBeRetried,
+    Jitter,
+    Options,
+    RateLimitValueType,
+    RetryExhaustedError,
+    ShouldRetryContext
+} from '../src/index';
 
 const retryStatusCodes = [408, 425, 429, 500, 502, 503, 504];
 
@@ -250,10 +261,7 @@ describe('fetch-with-retries', async () => {
 
     const customHeaders: {
         header: string;
-        valueType:
-            | 'wait-seconds'
-            | 'reset-utc-epoch-seconds'
-            | 'wait-milliseconds';
+        valueType: RateLimitValueType;
     }[] = [
         {
             header: 'X-RateLimit-Wait',
@@ -299,6 +307,120 @@ describe('fetch-with-retries', async () => {
         });
     }
 
+    const rateLimitHeaders: {
+        name: string;
+        headers: Record<string, string>;
+        delay: number;
+    }[] = [
+        {
+            name: 'Retry-After with fractional seconds',
+            headers: { 'Retry-After': '0.015' },
+            delay: 15
+        },
+        {
+            name: 'Retry-After with a future HTTP-date',
+            headers: {
+                'Retry-After': new Date(Date.now() + 3600000).toUTCString()
+            },
+            delay: 100
+        },
+        {
+            name: 'Retry-After with a past HTTP-date',
+            headers: { 'Retry-After': 'Wed, 21 Oct 2015 07:28:00 GMT' },
+            delay: 0
+        },
+        {
+            name: 'RateLimit dictionary',
+            headers: { RateLimit: 'limit=10, remaining=0, reset=0.02' },
+            delay: 20
+        },
+        {
+            name: 'RateLimit list with an exhausted quota',
+            headers: { RateLimit: '"burst";r=5;t=1, "daily";r=0;t=0.03' },
+            delay: 30
+        },
+        {
+            name: 'RateLimit list without reset and RateLimit-Policy',
+            headers: {
+                RateLimit: '"default";r=0',
+                'RateLimit-Policy': '"default";q=100;w=0.04'
+            },
+            delay: 40
+        },
+        {
+            name: 'RateLimit-Reset',
+            headers: { 'RateLimit-Reset': '0.05' },
+            delay: 50
+        },
+        {
+            name: 'X-RateLimit-Reset in the past',
+            headers: {
+                'X-RateLimit-Reset': Math.floor(
+                    Date.now() / 1000 - 60
+                ).toString()
+            },
+            delay: 0
+        }
+    ];
+    for (const { name, headers, delay } of rateLimitHeaders) {
+        await test(`should wait the delay advertised by the ${name} header`, async () => {
+            const nockScope = nock('https://test.com')
+                .get('/test')
+                .reply(429, { message: 'error' }, headers)
+                .get('/test')
+                .reply(200, { message: 'ok' });
+            const delays: number[] = [];
+
+            const response = await fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: params => {
+                        equal(params.rateLimitRetry, true, 'rate limit retry');
+                        delays.push(params.delay);
+                    },
+                    rateLimit: {
+                        maxDelay: 100
+                    }
+                }
+            });
+
+            equal(response.ok, true);
+            deepStrictEqual(delays, [delay]);
+            equal(nockScope.isDone(), true);
+        });
+    }
+
+    await test('should read a custom rate limit header on the configured status codes', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' }, { 'X-Wait-Ms': '10' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const delays: number[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: params => {
+                    delays.push(params.delay);
+                },
+                rateLimit: {
+                    customHeaders: [
+                        {
+                            header: 'X-Wait-Ms',
+                            valueType: 'wait-milliseconds',
+                            statusCodes: [503]
+                        }
+                    ]
+                }
+            }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(delays, [10]);
+        equal(nockScope.isDone(), true);
+    });
+
     await test('should return the response if ok after retrying 3 times network errors', async () => {
         const nockScope = nock('https://test.com')
             .get('/test')
@@ -477,4 +599,783 @@ describe('fetch-with-retries', async () => {
         equal(error.message, 'Boom, is aborted');
         equal(nockScope.isDone(), true);
     });
+
+    const jitterDelays: { jitter: Jitter; delays: number[] }[] = [
+        { jitter: 'none', delays: [2, 4, 8] },
+        { jitter: 'full', delays: [1, 2, 4] },
+        { jitter: 'equal', delays: [1.5, 3, 6] },
+        { jitter: 'decorrelated', delays: [2, 3.5, 5.75] },
+        { jitter: ({ delay }) => delay + 1, delays: [3, 5, 9] }
+    ];
+    for (const { jitter, delays } of jitterDelays) {
+        await test(`should apply ${typeof jitter === 'function' ? 'custom' : jitter} jitter to the retry delay`, async () => {
+            const nockScope = nock('https://test.com')
+                .get('/test')
+                .times(3)
+                .reply(503, { message: 'error' })
+                .get('/test')
+                .reply(200, { message: 'ok' });
+            const retryDelays: number[] = [];
+
+            const response = await fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: params => {
+                        retryDelays.push(params.delay);
+                    },
+                    initialDelay: 1,
+                    jitter,
+                    random: () => 0.5
+                }
+            });
+
+            deepStrictEqual(retryDelays, delays);
+            equal(response.ok, true);
+            equal(nockScope.isDone(), true);
+        });
+    }
+
+    await test('should cap the retry delay to maxDelay', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(3)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryDelays: number[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: params => {
+                    retryDelays.push(params.delay);
+                },
+                initialDelay: 1,
+                factor: 4,
+                maxDelay: 10
+            }
+        });
+
+        deepStrictEqual(retryDelays, [4, 10, 10]);
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should return the last response when the next wait exceeds maxElapsedTime', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+
+        const { response, attempts, errorRetries, totalDelay } =
+            await fetchWithRetries.withMeta('https://test.com/test', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    initialDelay: 50,
+                    factor: 1,
+                    maxElapsedTime: 80
+                }
+            });
+
+        equal(retries, 1, 'retries');
+        equal(attempts, 2, 'attempts');
+        equal(errorRetries, 1, 'errorRetries');
+        equal(totalDelay, 50, 'totalDelay');
+        equal(response.status, 503);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should return the rate limited response when the next wait exceeds maxElapsedTime', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(429, { message: 'error' }, { 'Retry-After': '60' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+
+        const { response, attempts, rateLimitRetries, totalDelay } =
+            await fetchWithRetries.withMeta('https://test.com/test', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    maxElapsedTime: 30_000
+                }
+            });
+
+        equal(retries, 0, 'retries');
+        equal(attempts, 1, 'attempts');
+        equal(rateLimitRetries, 0, 'rateLimitRetries');
+        equal(totalDelay, 0, 'totalDelay');
+        equal(response.status, 429);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should throw the last error when the next wait exceeds maxElapsedTime', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .replyWithError(new FetchError('ECONNRESET'))
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    maxElapsedTime: 500
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(retries, 0, 'retries');
+        equal(error.message, 'fetch failed');
+        equal(error.cause.code, 'ECONNRESET');
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should not retry a non idempotent request on an ambiguous failure', async () => {
+        const nockScope = nock('https://test.com')
+            .post('/test')
+            .reply(502, { message: 'error' })
+            .post('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+        let skipReason;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'POST',
+            retryOptions: {
+                onRetry: () => {
+                    retries++;
+                },
+                onRetrySkipped: params => {
+                    skipReason = params.reason;
+                },
+                initialDelay: 0
+            }
+        });
+
+        equal(retries, 0, 'retries');
+        equal(skipReason, 'non-idempotent');
+        equal(response.status, 502);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should throw the error without retry when a non idempotent request is reset', async () => {
+        const nockScope = nock('https://test.com')
+            .patch('/test')
+            .replyWithError(new FetchError('ECONNRESET'))
+            .patch('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                method: 'PATCH',
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    initialDelay: 0
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(retries, 0, 'retries');
+        equal(error.cause.code, 'ECONNRESET');
+        equal(nockScope.isDone(), false);
+    });
+
+    const nonIdempotentRetries: {
+        idempotency: Idempotency;
+        reply: (scope: nock.Interceptor) => nock.Scope;
+        options: Options;
+    }[] = [
+        {
+            idempotency: 'retry-non-idempotent',
+            reply: scope => scope.reply(502, { message: 'error' }),
+            options: { retryOptions: { retryNonIdempotent: true } }
+        },
+        {
+            idempotency: 'idempotency-key',
+            reply: scope => scope.reply(502, { message: 'error' }),
+            options: { headers: { 'Idempotency-Key': 'key' } }
+        },
+        {
+            idempotency: 'not-sent',
+            reply: scope =>
+                scope.replyWithError(new FetchError('ECONNREFUSED')),
+            options: {}
+        },
+        {
+            idempotency: 'rate-limited',
+            reply: scope =>
+                scope.reply(429, { message: 'error' }, { 'Retry-After': '0' }),
+            options: {}
+        }
+    ];
+    for (const { idempotency, reply, options } of nonIdempotentRetries) {
+        await test(`should retry a non idempotent request with idempotency ${idempotency}`, async () => {
+            const nockScope = reply(nock('https://test.com').post('/test'))
+                .post('/test')
+                .reply(200, { message: 'ok' });
+            const retryIdempotency: Idempotency[] = [];
+
+            const response = await fetchWithRetries('https://test.com/test', {
+                ...options,
+                method: 'POST',
+                retryOptions: {
+                    ...options.retryOptions,
+                    onRetry: params => {
+                        retryIdempotency.push(params.idempotency);
+                    },
+                    initialDelay: 0
+                }
+            });
+
+            deepStrictEqual(retryIdempotency, [idempotency]);
+            equal(response.ok, true);
+            equal(nockScope.isDone(), true);
+        });
+    }
+
+    await test('should send the same generated Idempotency-Key header on every attempt', async () => {
+        const idempotencyKeys: string[] = [];
+        const nockScope = nock('https://test.com')
+            .post('/test')
+            .times(2)
+            .matchHeader('Idempotency-Key', value => {
+                idempotencyKeys.push(value);
+                return true;
+            })
+            .reply(503, { message: 'error' })
+            .post('/test')
+            .matchHeader('Idempotency-Key', value => {
+                idempotencyKeys.push(value);
+                return true;
+            })
+            .reply(200, { message: 'ok' });
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'POST',
+            body: JSON.stringify({ amount: 10 }),
+            idempotencyKey: true,
+            retryOptions: {
+                initialDelay: 0
+            }
+        });
+
+        equal(response.ok, true);
+        equal(idempotencyKeys.length, 3);
+        equal(new Set(idempotencyKeys).size, 1);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should not retry when shouldRetry returns false', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: () => {
+                    retries++;
+                },
+                shouldRetry: () => false,
+                initialDelay: 0
+            }
+        });
+
+        equal(retries, 0, 'retries');
+        equal(response.status, 503);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should retry when an async shouldRetry returns true', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(404, { message: 'not found' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const contexts: ShouldRetryContext[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                shouldRetry: async context => {
+                    contexts.push(context);
+                    return context.response?.status === 404;
+                },
+                initialDelay: 0
+            }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(
+            contexts.map(c => [c.attempt, c.response?.status, c.retryable]),
+            [
+                [1, 404, false],
+                [2, 404, false],
+                [3, 200, false]
+            ]
+        );
+        equal(contexts[0].request.url, 'https://test.com/test');
+        equal(contexts[0].request.init.method, 'GET');
+        equal(typeof contexts[0].elapsed, 'number');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should retry with the delay returned by shouldRetry', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .replyWithError(new Error('unknown error'))
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryDelays: number[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: params => {
+                    retryDelays.push(params.delay);
+                },
+                shouldRetry: ({ error }) => (error ? { delay: 5 } : 'default')
+            }
+        });
+
+        deepStrictEqual(retryDelays, [5, 5]);
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should retry a non idempotent request when shouldRetry explicitly returns true', async () => {
+        const nockScope = nock('https://test.com')
+            .post('/test')
+            .replyWithError(new FetchError('ECONNRESET'))
+            .post('/test')
+            .reply(200, { message: 'ok' });
+        const idempotencies: (Idempotency | null)[] = [];
+        let skipped = 0;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'POST',
+            body: 'hello',
+            retryOptions: {
+                shouldRetry: ({ error }) =>
+                    error?.cause?.code === 'ECONNRESET' || 'default',
+                onRetry: ({ idempotency }) => {
+                    idempotencies.push(idempotency);
+                },
+                onRetrySkipped: () => {
+                    skipped++;
+                },
+                initialDelay: 0
+            }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(idempotencies, ['should-retry']);
+        equal(skipped, 0, 'skipped');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should not retry a non idempotent request when shouldRetry returns default', async () => {
+        const nockScope = nock('https://test.com')
+            .post('/test')
+            .replyWithError(new FetchError('ECONNRESET'))
+            .post('/test')
+            .reply(200, { message: 'ok' });
+        const skipReasons: string[] = [];
+
+        await rejects(
+            fetchWithRetries('https://test.com/test', {
+                method: 'POST',
+                body: 'hello',
+                retryOptions: {
+                    shouldRetry: () => 'default',
+                    onRetrySkipped: ({ reason }) => {
+                        skipReasons.push(reason);
+                    },
+                    initialDelay: 0
+                }
+            }),
+            { message: 'fetch failed' }
+        );
+
+        deepStrictEqual(skipReasons, ['non-idempotent']);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should build custom shouldRetry on the built-in classifiers', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(500, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: () => {
+                    retries++;
+                },
+                shouldRetry: ({ response }) =>
+                    response !== null &&
+                    response.status !== 500 &&
+                    isResponseThatHaveToBeRetried(response),
+                initialDelay: 0
+            }
+        });
+
+        equal(retries, 1, 'retries');
+        equal(response.status, 500);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should apply a retry policy with its own counter to each condition', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .replyWithError(new FetchError('ECONNREFUSED'))
+            .get('/test')
+            .times(2)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .replyWithError(new FetchError('ECONNREFUSED'))
+            .get('/test')
+            .times(2)
+            .reply(500, { message: 'error' });
+        const retries: [string, number][] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: params => {
+                    retries.push([params.policy, params.delay]);
+                },
+                initialDelay: 0,
+                policies: {
+                    ECONNREFUSED: { maxRetries: 2, initialDelay: 1, factor: 1 },
+                    '503': { maxRetries: 5, initialDelay: 2, factor: 1 },
+                    '500': { maxRetries: 1 }
+                }
+            }
+        });
+
+        deepStrictEqual(retries, [
+            ['ECONNREFUSED', 1],
+            ['503', 2],
+            ['503', 2],
+            ['ECONNREFUSED', 1],
+            ['500', 0]
+        ]);
+        equal(response.status, 500);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should retry a response matching a status class policy', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(501, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryPolicies: string[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: params => {
+                    retryPolicies.push(params.policy);
+                },
+                initialDelay: 0,
+                policies: {
+                    '5xx': { maxRetries: 1 }
+                }
+            }
+        });
+
+        deepStrictEqual(retryPolicies, ['5xx']);
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should report the rate limit and default policies', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(429, { message: 'error' }, { 'Retry-After': '0' })
+            .get('/test')
+            .reply(502, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryPolicies: string[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                onRetry: params => {
+                    retryPolicies.push(params.policy);
+                },
+                initialDelay: 0,
+                policies: {
+                    '503': { maxRetries: 1 }
+                }
+            }
+        });
+
+        deepStrictEqual(retryPolicies, ['rateLimit', 'default']);
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should throw a RetryExhaustedError with the attempts history when retries are exhausted', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(429, { message: 'error' }, { 'Retry-After': '0' })
+            .get('/test')
+            .times(3)
+            .reply(503, { message: 'error' });
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                throwOnExhausted: true,
+                retryOptions: {
+                    initialDelay: 1,
+                    factor: 1,
+                    maxRetries: 2
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof RetryExhaustedError, true);
+        equal(error.message, 'Retries exhausted after 4 attempts');
+        equal(error.response.status, 503);
+        deepStrictEqual(
+            error.attempts.map((a: AttemptRecord) => [
+                a.attempt,
+                a.status,
+                a.delay,
+                a.rateLimitRetry,
+                a.policy
+            ]),
+            [
+                [1, 429, 0, true, 'rateLimit'],
+                [2, 503, 1, false, 'default'],
+                [3, 503, 1, false, 'default'],
+                [4, 503, 0, false, undefined]
+            ]
+        );
+        equal(
+            error.attempts.every(
+                (a: AttemptRecord) => a.endedAt >= a.startedAt
+            ),
+            true
+        );
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should throw a RetryExhaustedError with the last error as cause when retries are exhausted', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .replyWithError(new FetchError('ECONNRESET'));
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                throwOnExhausted: true,
+                retryOptions: {
+                    initialDelay: 0,
+                    maxRetries: 1
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof RetryExhaustedError, true);
+        equal(error.response, null);
+        equal(error.cause.cause.code, 'ECONNRESET');
+        deepStrictEqual(
+            error.attempts.map((a: AttemptRecord) => a.errorCode),
+            ['ECONNRESET', 'ECONNRESET']
+        );
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should return the response without throwing when throwOnExhausted is enabled and the response is not retried', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(404, { message: 'not found' });
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            throwOnExhausted: true,
+            retryOptions: {
+                initialDelay: 0
+            }
+        });
+
+        equal(response.status, 404);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should throw an AbortedDuringRetryError when the signal aborts while waiting to retry', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const controller = new AbortController();
+        const abortError = new Error('Boom, is aborted');
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                signal: controller.signal,
+                throwOnExhausted: true,
+                retryOptions: {
+                    onRetry: () => {
+                        setTimeout(() => controller.abort(abortError), 0);
+                    },
+                    initialDelay: 10_000
+                }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof AbortedDuringRetryError, true);
+        equal(error.cause, abortError);
+        equal(error.attempts.length, 1);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should resolve with the attempts metadata using withMeta', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(429, { message: 'error' }, { 'Retry-After': '0' })
+            .get('/test')
+            .times(2)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+
+        const {
+            response,
+            attempts,
+            errorRetries,
+            rateLimitRetries,
+            totalDelay,
+            elapsed,
+            history
+        } = await fetchWithRetries.withMeta('https://test.com/test', {
+            method: 'GET',
+            retryOptions: {
+                initialDelay: 1,
+                factor: 1
+            }
+        });
+
+        equal(response.ok, true);
+        const body = await response.json();
+        deepStrictEqual(body, { message: 'ok' });
+        equal(attempts, 4, 'attempts');
+        equal(errorRetries, 2, 'error retries');
+        equal(rateLimitRetries, 1, 'rate limit retries');
+        equal(totalDelay, 2, 'total delay');
+        equal(elapsed >= totalDelay, true, 'elapsed');
+        deepStrictEqual(
+            history.filter(a => a.rateLimitRetry).map(a => a.attempt),
+            [1]
+        );
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should resolve with the metadata of a single attempt using withMeta', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(200, { message: 'ok' });
+
+        const result = await fetchWithRetries.withMeta(
+            'https://test.com/test',
+            { method: 'GET' }
+        );
+
+        equal(result.response.ok, true);
+        equal(result.attempts, 1, 'attempts');
+        equal(result.totalDelay, 0, 'total delay');
+        equal(result.history.length, 1, 'history');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should accept a URL input without options', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+
+        const { response, attempts } = await fetchWithRetries.withMeta(
+            new URL('https://test.com/test')
+        );
+
+        equal(response.ok, true);
+        equal(attempts, 2, 'attempts');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should use the Request method and headers overridden by the options', async () => {
+        const nockScope = nock('https://test.com', {
+            reqheaders: { 'x-request-id': 'abc', 'x-tenant': 'other-tenant' }
+        })
+            .delete('/test')
+            .reply(503, { message: 'error' })
+            .delete('/test')
+            .reply(204);
+        const request = new Request('https://test.com/test', {
+            method: 'DELETE',
+            headers: { 'X-Request-Id': 'abc', 'X-Tenant': 'tenant' }
+        });
+
+        const response = await fetchWithRetries(request, {
+            headers: { 'X-Tenant': 'other-tenant' },
+            retryOptions: { initialDelay: 0 }
+        });
+
+        equal(response.status, 204);
+        equal(nockScope.isDone(), true);
+    });
 });
@@ -0,0 +1,119 @@
+import { describe, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import { Dispatcher, fetchWithRetries } from '../src/index';
+import { createFaultServer } from '../src/testing';
+
+class FetchError extends TypeError {
+    public readonly cause: { code: string };
+    constructor(code: string) {
+        super('fetch failed');
+        this.cause = { code };
+    }
+}
+
+function createFakeDispatcher(name: string, closed: string[]): Dispatcher {
+    return {
+        name,
+        close: async () => {
+            closed.push(name);
+        }
+    } as unknown as Dispatcher;
+}
+
+describe('fresh-connection', async () => {
+    await test('should use a new dispatcher for the attempts following a connection reset', async () => {
+        const errors = [new FetchError('ECONNRESET'), new FetchError('EPIPE')];
+        const usedDispatchers: string[] = [];
+        const closed: string[] = [];
+        let created = 0;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            dispatcher: createFakeDispatcher('initial', closed),
+            fetch: async (input, init) => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                usedDispatchers.push((init?.dispatcher as any).name);
+                const error = errors.shift();
+                if (error) {
+                    throw error;
+                }
+                return new Response(null, { status: 200 });
+            },
+            freshConnection: {
+                createDispatcher: () =>
+                    createFakeDispatcher(`fresh-${++created}`, closed)
+            },
+            retryOptions: { initialDelay: 0 }
+        });
+
+        equal(response.status, 200);
+        deepStrictEqual(usedDispatchers, ['initial', 'fresh-1', 'fresh-2']);
+        deepStrictEqual(closed, ['fresh-1', 'fresh-2']);
+    });
+
+    await test('should keep the dispatcher on other errors and close the created ones when the retries are exhausted', async () => {
+        const errors = [
+            new FetchError('ECONNREFUSED'),
+            new FetchError('ECONNRESET')
+        ];
+        const closed: string[] = [];
+        let created = 0;
+        let error: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                fetch: async () => {
+                    throw errors.shift();
+                },
+                freshConnection: {
+                    createDispatcher: () =>
+                        createFakeDispatcher(`fresh-${++created}`, closed)
+                },
+                retryOptions: { initialDelay: 0, maxRetries: 1 }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error.cause.code, 'ECONNRESET');
+        equal(created, 1, 'created');
+        deepStrictEqual(closed, ['fresh-1']);
+    });
+
+    await test('should use a new dispatcher after the server closes a keep-alive connection', async () => {
+        const server = await createFaultServer();
+        server.route('GET', '/test', [
+            { fault: 'close' },
+            { status: 200, body: 'ok' }
+        ]);
+        const usedDispatchers: string[] = [];
+        const errorCodes: string[] = [];
+        const closed: string[] = [];
+
+        const response = await fetchWithRetries(`${server.url}/test`, {
+            dispatcher: createFakeDispatcher('initial', closed),
+            // the fake dispatchers are recorded, then the global dispatcher is used
+            fetch: (input, { dispatcher, ...init } = {}) => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                usedDispatchers.push((dispatcher as any).name);
+                return fetch(input, init);
+            },
+            freshConnection: {
+                createDispatcher: () => createFakeDispatcher('fresh', closed)
+            },
+            retryOptions: {
+                initialDelay: 0,
+                onRetry: ({ error }) => {
+                    errorCodes.push(error.cause.code);
+                }
+            }
+        });
+
+        const body = await response.text();
+        await server.close();
+
+        equal(body, 'ok');
+        deepStrictEqual(errorCodes, ['UND_ERR_SOCKET']);
+        deepStrictEqual(usedDispatchers, ['initial', 'fresh']);
+        deepStrictEqual(closed, ['fresh']);
+    });
+});
@@ -0,0 +1,245 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal, deepStrictEqual, rejects } from 'node:assert';
+import { createFetchWithRetries, fetchWithRetries } from '../src/index';
+
+class FetchError extends Error {
+    public readonly cause: { code: string };
+
+    constructor(code: string) {
+        super('fetch failed');
+        this.cause = { code };
+    }
+}
+
+describe('hooks', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    await test('should re-sign the request headers on every attempt', async () => {
+        const signatures: string[] = [];
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .matchHeader('x-signature', value => {
+                signatures.push(value);
+                return true;
+            })
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .matchHeader('x-signature', value => {
+                signatures.push(value);
+                return true;
+            })
+            .reply(200, { message: 'ok' });
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            hooks: {
+                beforeRequest: [
+                    ({ init, attempt }) => {
+                        (init.headers as Headers).set(
+                            'x-signature',
+                            `signature-${attempt}`
+                        );
+                    }
+                ]
+            },
+            retryOptions: {
+                initialDelay: 0
+            }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(signatures, [
+            'signature-1',
+            'signature-2',
+            'signature-3'
+        ]);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should run the hooks in order as a middleware chain', async () => {
+        const calls: string[] = [];
+        const nockScope = nock('https://test.com')
+            .get('/other')
+            .reply(200, { message: 'ok' });
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            hooks: {
+                beforeRequest: [
+                    async request => {
+                        calls.push('first');
+                        return { ...request, url: 'https://test.com/other' };
+                    },
+                    request => {
+                        calls.push(`second ${request.url}`);
+                    }
+                ],
+                afterResponse: [
+                    async response => {
+                        calls.push(`after ${response.status}`);
+                        return new Response('replaced', { status: 201 });
+                    },
+                    response => {
+                        calls.push(`after ${response.status}`);
+                    }
+                ]
+            }
+        });
+
+        equal(response.status, 201);
+        equal(await response.text(), 'replaced');
+        deepStrictEqual(calls, [
+            'first',
+            'second https://test.com/other',
+            'after 200',
+            'after 201'
+        ]);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should veto a retry from a beforeRetry hook', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        let retries = 0;
+        let skipReason;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            hooks: {
+                beforeRetry: [async () => false]
+            },
+            retryOptions: {
+                onRetry: () => {
+                    retries++;
+                },
+                onRetrySkipped: params => {
+                    skipReason = params.reason;
+                },
+                initialDelay: 0
+            }
+        });
+
+        equal(retries, 0, 'retries');
+        equal(skipReason, 'before-retry');
+        equal(response.status, 503);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should delay a retry from a beforeRetry hook', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryDelays: number[] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            hooks: {
+                beforeRetry: [({ delay }) => ({ delay: delay + 5 })]
+            },
+            retryOptions: {
+                onRetry: params => {
+                    retryDelays.push(params.delay);
+                },
+                initialDelay: 0
+            }
+        });
+
+        deepStrictEqual(retryDelays, [5]);
+        equal(response.ok, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should not wait for the retry when the signal aborts during a beforeRetry hook', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' });
+        const controller = new AbortController();
+        const start = Date.now();
+
+        await rejects(
+            fetchWithRetries('https://test.com/test', {
+                method: 'GET',
+                signal: controller.signal,
+                hooks: {
+                    beforeRetry: [
+                        async () => {
+                            await new Promise(resolve => setImmediate(resolve));
+                            controller.abort();
+                        }
+                    ]
+                },
+                retryOptions: { initialDelay: 1500 }
+            }),
+            { name: 'AbortError' }
+        );
+
+        equal(Date.now() - start < 1000, true, 'waited for the retry');
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should call the onError hooks on each failed attempt', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .replyWithError(new FetchError('ECONNRESET'))
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const errors: [string, number][] = [];
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            method: 'GET',
+            hooks: {
+                onError: [
+                    (error, { attempt }) => {
+                        errors.push([error.cause.code, attempt]);
+                    }
+                ]
+            },
+            retryOptions: {
+                initialDelay: 0
+            }
+        });
+
+        equal(response.ok, true);
+        deepStrictEqual(errors, [
+            ['ECONNRESET', 1],
+            ['ECONNRESET', 2]
+        ]);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should run the client hooks before the request hooks', async () => {
+        const calls: string[] = [];
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const fetchClient = createFetchWithRetries({
+            hooks: {
+                beforeRequest: [() => void calls.push('client')]
+            }
+        });
+
+        await fetchClient('https://test.com/test', {
+            hooks: {
+                beforeRequest: [() => void calls.push('request')]
+            }
+        });
+
+        deepStrictEqual(calls, ['client', 'request']);
+        equal(nockScope.isDone(), true);
+    });
+});
@@ -0,0 +1,172 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal } from 'node:assert';
+import { createRateLimiter, fetchWithRetries } from '../src/index';
+
+describe('rate-limiter', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    await test('should queue the requests exceeding the static quota', async () => {
+        const requestTimes: number[] = [];
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(3)
+            .reply(() => {
+                requestTimes.push(Date.now());
+                return [200, { message: 'ok' }];
+            });
+        const rateLimiter = createRateLimiter({
+            requestsPerInterval: 2,
+            interval: 100
+        });
+        const start = Date.now();
+
+        const responses = await Promise.all(
+            [1, 2, 3].map(() =>
+                fetchWithRetries('https://test.com/test', { rateLimiter })
+            )
+        );
+
+        equal(
+            responses.every(r => r.ok),
+            true
+        );
+        equal(requestTimes[1] - start < 90, true);
+        equal(requestTimes[2] - start >= 90, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should wait for the quota reset advertised by the response headers', async () => {
+        const requestTimes: number[] = [];
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(() => {
+                requestTimes.push(Date.now());
+                return [
+                    200,
+                    { message: 'ok' },
+                    {
+                        'X-RateLimit-Remaining': '0',
+                        'X-RateLimit-Reset': '100'
+                    }
+                ];
+            });
+        const rateLimiter = createRateLimiter({
+            resetValueType: 'wait-milliseconds'
+        });
+
+        await fetchWithRetries('https://test.com/test', { rateLimiter });
+        await fetchWithRetries('https://test.com/test', { rateLimiter });
+
+        equal(requestTimes[1] - requestTimes[0] >= 90, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should not wait for a quota reset in the past', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(2)
+            .reply(
+                200,
+                { message: 'ok' },
+                {
+                    'X-RateLimit-Remaining': '0',
+                    'X-RateLimit-Reset': Math.floor(
+                        Date.now() / 1000 - 10
+                    ).toString()
+                }
+            );
+        const rateLimiter = createRateLimiter();
+        const start = Date.now();
+
+        await fetchWithRetries('https://test.com/test', { rateLimiter });
+        await fetchWithRetries('https://test.com/test', { rateLimiter });
+
+        equal(Date.now() - start < 1000, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should cancel a queued request with the signal', async () => {
+        const nockScope = nock('https://test.com').get('/test').reply(
+            200,
+            { message: 'ok' },
+            {
+                'X-RateLimit-Remaining': '0',
+                'X-RateLimit-Reset': '10'
+            }
+        );
+        const rateLimiter = createRateLimiter({
+            resetValueType: 'wait-seconds'
+        });
+        const controller = new AbortController();
+        const abortError = new Error('Boom, is aborted');
+        let error: unknown = null;
+
+        await fetchWithRetries('https://test.com/test', { rateLimiter });
+        const queued = fetchWithRetries('https://test.com/test', {
+            rateLimiter,
+            signal: controller.signal
+        });
+        setTimeout(() => controller.abort(abortError), 10);
+        try {
+            await queued;
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error, abortError);
+        equal(rateLimiter.getQueueLength('https://test.com'), 0);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should keep the FIFO order of the queue when a request is cancelled', async () => {
+        const rateLimiter = createRateLimiter({
+            requestsPerInterval: 1,
+            interval: 50
+        });
+        const controller = new AbortController();
+        const order: number[] = [];
+
+        await rateLimiter.acquire('https://test.com');
+        const second = rateLimiter
+            .acquire('https://test.com', controller.signal)
+            .catch(() => order.push(2));
+        const third = rateLimiter
+            .acquire('https://test.com')
+            .then(() => order.push(3));
+        equal(rateLimiter.getQueueLength('https://test.com'), 2);
+        controller.abort();
+        await Promise.all([second, third]);
+
+        equal(order.join(), '2,3');
+        equal(rateLimiter.getQueueLength('https://test.com'), 0);
+    });
+
+    await test('should not count the wait for the quota in the attempt timeout', async () => {
+        const rateLimiter = createRateLimiter({
+            requestsPerInterval: 1,
+            interval: 100
+        });
+        await rateLimiter.acquire('https://test.com');
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            fetch: async (input, init) => {
+                init?.signal?.throwIfAborted();
+                return new Response(null, { status: 200 });
+            },
+            rateLimiter,
+            attemptTimeout: 50,
+            retryOptions: { maxRetries: 0 }
+        });
+
+        equal(response.ok, true);
+    });
+});
@@ -0,0 +1,163 @@
+import { describe, test } from 'node:test';
+import { equal, deepStrictEqual, rejects } from 'node:assert';
+import { createRequestQueue, fetchWithRetries } from '../src/index';
+
+describe('request-queue', async () => {
+    await test('should limit the attempts in flight', async () => {
+        const requestQueue = createRequestQueue({ maxConcurrency: 2 });
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const fetchImpl: typeof fetch = async () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            inFlight--;
+            return new Response(null, { status: 200 });
+        };
+
+        const responses = await Promise.all(
+            [1, 2, 3, 4, 5].map(i =>
+                fetchWithRetries(`https://test.com/${i}`, {
+                    fetch: fetchImpl,
+                    requestQueue
+                })
+            )
+        );
+
+        equal(
+            responses.every(response => response.ok),
+            true
+        );
+        equal(maxInFlight, 2, 'max in flight');
+        equal(requestQueue.getInFlight(), 0, 'in flight');
+    });
+
+    await test('should release the slot while a request waits for a retry', async () => {
+        const requestQueue = createRequestQueue({ maxConcurrencyPerOrigin: 1 });
+        const requests: string[] = [];
+        const statuses: Record<string, number[]> = {
+            'https://test.com/a': [503, 200],
+            'https://test.com/b': [200]
+        };
+        const fetchImpl: typeof fetch = async input => {
+            requests.push(input.toString());
+            return new Response(null, {
+                status: statuses[input.toString()].shift()
+            });
+        };
+
+        await Promise.all([
+            fetchWithRetries('https://test.com/a', {
+                fetch: fetchImpl,
+                requestQueue,
+                retryOptions: { initialDelay: 25 }
+            }),
+            fetchWithRetries('https://test.com/b', {
+                fetch: fetchImpl,
+                requestQueue
+            })
+        ]);
+
+        deepStrictEqual(requests, [
+            'https://test.com/a',
+            'https://test.com/b',
+            'https://test.com/a'
+        ]);
+    });
+
+    await test('should serve the higher priority first and the origins in turn', async () => {
+        const requestQueue = createRequestQueue({ maxConcurrency: 1 });
+        const served: string[] = [];
+        const release = await requestQueue.acquire('a');
+        const acquire = (origin: string, name: string, priority?: number) =>
+            requestQueue.acquire(origin, { priority }).then(releaseSlot => {
+                served.push(name);
+                setImmediate(releaseSlot);
+            });
+
+        const acquired = Promise.all([
+            acquire('a', 'a1'),
+            acquire('a', 'a2'),
+            acquire('b', 'b1'),
+            acquire('a', 'a3', 5)
+        ]);
+        equal(requestQueue.getDepth(), 4, 'depth');
+        equal(requestQueue.getDepth('a'), 3, 'depth of a');
+        release();
+        await acquired;
+
+        deepStrictEqual(served, ['a3', 'b1', 'a1', 'a2']);
+        equal(requestQueue.getDepth(), 0, 'depth');
+    });
+
+    await test('should remove a queued entry when its signal aborts', async () => {
+        const requestQueue = createRequestQueue({ maxConcurrency: 1 });
+        const controller = new AbortController();
+        let requests = 0;
+        const release = await requestQueue.acquire('https://test.com');
+
+        const promise = fetchWithRetries('https://test.com/test', {
+            fetch: async () => {
+                requests++;
+                return new Response(null, { status: 200 });
+            },
+            requestQueue,
+            signal: controller.signal
+        });
+        await new Promise(resolve => setImmediate(resolve));
+        equal(requestQueue.getDepth('https://test.com'), 1, 'queued');
+        controller.abort();
+
+        await rejects(promise, { name: 'AbortError' });
+        equal(requestQueue.getDepth(), 0, 'depth');
+        release();
+        equal(requests, 0, 'requests');
+        equal(requestQueue.getInFlight(), 0, 'in flight');
+    });
+
+    await test('should not count the wait for a slot in the attempt timeout', async () => {
+        const requestQueue = createRequestQueue({ maxConcurrency: 1 });
+        const release = await requestQueue.acquire('https://test.com');
+        setTimeout(release, 100);
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            fetch: async (input, init) => {
+                init?.signal?.throwIfAborted();
+                return new Response(null, { status: 200 });
+            },
+            requestQueue,
+            attemptTimeout: 50,
+            retryOptions: { maxRetries: 0 }
+        });
+
+        equal(response.ok, true);
+        equal(requestQueue.getInFlight(), 0, 'in flight');
+    });
+
+    await test('should acquire a slot for each hedged request', async () => {
+        const requestQueue = createRequestQueue({ maxConcurrency: 1 });
+        let requests = 0;
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        const response = await fetchWithRetries('https://test.com/test', {
+            fetch: async () => {
+                requests++;
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise(resolve => setTimeout(resolve, 60));
+                inFlight--;
+                return new Response(null, { status: 200 });
+            },
+            requestQueue,
+            hedging: { hedgeDelay: 10, maxHedges: 2 }
+        });
+
+        equal(response.ok, true);
+        equal(requests, 1, 'requests');
+        equal(maxInFlight, 1, 'max in flight');
+        await new Promise(resolve => setImmediate(resolve));
+        equal(requestQueue.getDepth(), 0, 'depth');
+        equal(requestQueue.getInFlight(), 0, 'in flight');
+    });
+});
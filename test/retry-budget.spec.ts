@@ -0,0 +1,119 @@
+import * as nock from 'nock';
+import { describe, beforeEach, afterEach, test } from 'node:test';
+import { equal } from 'node:assert';
+import {
+    createRetryBudget,
+    fetchWithRetries,
+    RetryExhaustedError
+} from '../src/index';
+
+describe('retry-budget', async () => {
+    await beforeEach(() => {
+        nock.disableNetConnect();
+    });
+
+    await afterEach(() => {
+        nock.cleanAll();
+        nock.enableNetConnect();
+    });
+
+    await test('should stop retrying when the retry budget is empty', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .times(3)
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryBudget = createRetryBudget({ maxTokens: 2 });
+        let retries = 0;
+        let skipReason;
+
+        const { response, attempts, errorRetries } =
+            await fetchWithRetries.withMeta('https://test.com/test', {
+                retryBudget,
+                retryOptions: {
+                    onRetry: () => {
+                        retries++;
+                    },
+                    onRetrySkipped: params => {
+                        skipReason = params.reason;
+                    },
+                    initialDelay: 0
+                }
+            });
+
+        equal(retries, 2, 'retries');
+        equal(attempts, 3, 'attempts');
+        equal(errorRetries, 2, 'errorRetries');
+        equal(skipReason, 'retry-budget');
+        equal(response.status, 503);
+        equal(retryBudget.getTokens(), 0);
+        equal(nockScope.isDone(), false);
+    });
+
+    await test('should share the retry budget across requests and refill it with successes', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .times(10)
+            .reply(200, { message: 'ok' })
+            .get('/test')
+            .reply(503, { message: 'error' })
+            .get('/test')
+            .reply(200, { message: 'ok' });
+        const retryBudget = createRetryBudget({ maxTokens: 1 });
+        const options = {
+            retryBudget,
+            retryOptions: { initialDelay: 0 }
+        };
+
+        await fetchWithRetries('https://test.com/test', options);
+        equal(retryBudget.getTokens(), 0.1);
+        for (let i = 0; i < 9; i++) {
+            await fetchWithRetries('https://test.com/test', options);
+        }
+        equal(retryBudget.getTokens(), 1);
+        const response = await fetchWithRetries(
+            'https://test.com/test',
+            options
+        );
+
+        equal(response.ok, true);
+        equal(retryBudget.getTokens(), 0.1);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should throw a RetryExhaustedError when the retry budget is empty and throwOnExhausted is enabled', async () => {
+        const nockScope = nock('https://test.com')
+            .get('/test')
+            .reply(503, { message: 'error' });
+        let error: unknown = null;
+
+        try {
+            await fetchWithRetries('https://test.com/test', {
+                retryBudget: createRetryBudget({ maxTokens: 0 }),
+                throwOnExhausted: true,
+                retryOptions: { initialDelay: 0 }
+            });
+        } catch (e) {
+            error = e;
+        }
+
+        equal(error instanceof RetryExhaustedError, true);
+        equal(nockScope.isDone(), true);
+    });
+
+    await test('should not withdraw more tokens than available', () => {
+        const retryBudget = createRetryBudget({
+            maxTokens: 3,
+            retryCost: 2
+        });
+
+        equal(retryBudget.tryWithdraw(), true);
+        equal(retryBudget.tryWithdraw(), false);
+        equal(retryBudget.getTokens(), 1);
+        retryBudget.deposit();
+        equal(retryBudget.getTokens(), 1.1);
+    });
+});
@@ -0,0 +1,173 @@
+import { describe, after, beforeEach, test } from 'node:test';
+import { connect } from 'node:net';
+import { once } from 'node:events';
+import { equal, deepStrictEqual, rejects } from 'node:assert';
+import { fetchWithRetries } from '../src/index';
+import { createFaultServer } from '../src/testing';
+
+describe('testing', async () => {
+    const server = await createFaultServer();
+
+    await after(async () => {
+        await server.close();
+    });
+
+    await beforeEach(() => {
+        server.reset();
+    });
+
+    await test('should serve the scripted responses in order and record the requests', async () => {
+        server.route('POST', '/orders', [
+            { status: 503, headers: { 'Retry-After': '0' } },
+            { status: 201, body: JSON.stringify({ id: 1 }) }
+        ]);
+
+        const response = await fetchWithRetries(`${server.url}/orders`, {
+            method: 'POST',
+            body: JSON.stringify({ item: 'book' }),
+            idempotencyKey: 'key'
+        });
+
+        equal(response.status, 201);
+        deepStrictEqual(await response.json(), { id: 1 });
+        const requests = server.getRequests('/orders');
+        deepStrictEqual(
+            requests.map(({ method, body, attempt, headers }) => ({
+                method,
+                body,
+                attempt,
+                idempotencyKey: headers['idempotency-key']
+            })),
+            [1, 2].map(attempt => ({
+                method: 'POST',
+                body: JSON.stringify({ item: 'book' }),
+                attempt,
+                idempotencyKey: 'key'
+            }))
+        );
+        equal(requests[1].receivedAt >= requests[0].receivedAt, true);
+    });
+
+    await test('should repeat the last scripted response and answer 404 to the routes not scripted', async () => {
+        server.route('*', '/test', [{ status: 500 }]);
+
+        const { response, attempts } = await fetchWithRetries.withMeta(
+            `${server.url}/test`,
+            { retryOptions: { initialDelay: 0, maxRetries: 2 } }
+        );
+        const notFound = await fetch(`${server.url}/other`);
+
+        equal(response.status, 500);
+        equal(attempts, 3, 'attempts');
+        equal(notFound.status, 404);
+        equal(server.getRequests().length, 4, 'requests');
+    });
+
+    await test('should reset the connection before the response and after a delay', async () => {
+        server.route('GET', '/test', [
+            { fault: 'reset', delay: 20 },
+            { status: 200, body: 'ok' }
+        ]);
+        const errorCodes: string[] = [];
+
+        const response = await fetchWithRetries(`${server.url}/test`, {
+            retryOptions: {
+                initialDelay: 0,
+                onRetry: ({ error }) => {
+                    errorCodes.push(error.cause.code);
+                }
+            }
+        });
+
+        equal(await response.text(), 'ok');
+        deepStrictEqual(errorCodes, ['ECONNRESET']);
+        equal(
+            server.getRequests()[0].receivedAt + 20 <= Date.now(),
+            true,
+            'delayed'
+        );
+    });
+
+    await test('should close the connection before the response', async () => {
+        server.route('GET', '/test', [
+            { fault: 'close' },
+            { status: 200, body: 'ok' }
+        ]);
+        const errorCodes: string[] = [];
+
+        const response = await fetchWithRetries(`${server.url}/test`, {
+            retryOptions: {
+                initialDelay: 0,
+                onRetry: ({ error }) => {
+                    errorCodes.push(error.cause.code);
+                }
+            }
+        });
+
+        equal(await response.text(), 'ok');
+        deepStrictEqual(errorCodes, ['UND_ERR_SOCKET']);
+    });
+
+    await test('should reset the connection in the middle of the body', async () => {
+        server.route('GET', '/test', [
+            { fault: 'reset-mid-body', body: 'hello world' }
+        ]);
+
+        const response = await fetchWithRetries(`${server.url}/test`, {});
+
+        equal(response.status, 200);
+        await rejects(response.text());
+    });
+
+    await test('should refuse the connections for the given duration', async () => {
+        // a new server, so no keep-alive connection is reused
+        const refusingServer = await createFaultServer();
+        refusingServer.route('GET', '/test', [{ status: 200, body: 'ok' }]);
+        const errorCodes: string[] = [];
+
+        await refusingServer.refuseConnections(100);
+        const response = await fetchWithRetries(`${refusingServer.url}/test`, {
+            retryOptions: {
+                initialDelay: 50,
+                factor: 1,
+                maxRetries: 10,
+                onRetry: ({ error }) => {
+                    errorCodes.push(error.cause.code);
+                }
+            }
+        });
+
+        equal(await response.text(), 'ok');
+        equal(errorCodes.length > 0, true, 'retried');
+        equal(
+            errorCodes.every(code => code === 'ECONNREFUSED'),
+            true,
+            'refused'
+        );
+        await refusingServer.close();
+    });
+
+    await test('should keep serving after a client aborts its upload', async () => {
+        server.route('POST', '/upload', [{ status: 200, body: 'ok' }]);
+        const { port } = new URL(server.url);
+        const socket = connect(Number(port), '127.0.0.1');
+        await once(socket, 'connect');
+
+        socket.write(
+            'POST /upload HTTP/1.1\r\nHost: 127.0.0.1\r\nContent-Length: 100\r\n\r\npartial'
+        );
+        await new Promise(resolve => setTimeout(resolve, 20));
+        socket.destroy();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        const response = await fetchWithRetries(`${server.url}/upload`, {
+            method: 'POST',
+            body: 'complete'
+        });
+
+        equal(await response.text(), 'ok');
+        deepStrictEqual(
+            server.getRequests('/upload').map(({ body }) => body),
+            ['complete']
+        );
+    });
+});
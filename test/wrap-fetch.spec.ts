@@ -0,0 +1,49 @@
+import { describe, test } from 'node:test';
+import { equal, deepStrictEqual } from 'node:assert';
+import { wrapFetch } from '../src/index';
+
+describe('wrap-fetch', async () => {
+    await test('should retry the wrapped fetch implementation', async () => {
+        const statuses = [503, 503, 200];
+        const requests: string[] = [];
+        const fetchImpl: typeof fetch = async input => {
+            requests.push(input.toString());
+            return new Response(null, { status: statuses.shift() });
+        };
+
+        const wrappedFetch: typeof fetch = wrapFetch(fetchImpl, {
+            retryOptions: { initialDelay: 0 }
+        });
+        const response = await wrappedFetch('https://test.com/test');
+
+        equal(response.status, 200);
+        deepStrictEqual(requests, [
+            'https://test.com/test',
+            'https://test.com/test',
+            'https://test.com/test'
+        ]);
+    });
+
+    await test('should clone a Request body on every attempt', async () => {
+        const statuses = [503, 200];
+        const receivedBodies: string[] = [];
+        const fetchImpl: typeof fetch = async (input, init) => {
+            receivedBodies.push(await new Response(init?.body).text());
+            return new Response(null, { status: statuses.shift() });
+        };
+
+        const wrappedFetch = wrapFetch(fetchImpl, {
+            baseURL: 'https://other.com',
+            retryOptions: { initialDelay: 0 }
+        });
+        const response = await wrappedFetch(
+            new Request('https://test.com/test', {
+                method: 'PUT',
+                body: 'hello world'
+            })
+        );
+
+        equal(response.status, 200);
+        deepStrictEqual(receivedBodies, ['hello world', 'hello world']);
+    });
+});